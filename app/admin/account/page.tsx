@@ -0,0 +1,48 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { requireAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import TwoFactorSettings from "./two-factor-settings";
+
+export const revalidate = 0;
+
+export default async function AccountPage() {
+  const session = await requireAdmin();
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: session.userId },
+    select: { totpSecret: true, recoveryCodes: true },
+  });
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-500">Admin</p>
+            <h1 className="text-2xl font-semibold text-slate-900">
+              Your account
+            </h1>
+            <p className="text-sm text-slate-500">
+              Signed in as {session.username} ({session.role}).
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/admin/sessions">
+              <Button variant="outline">Active sessions</Button>
+            </Link>
+            <Link href="/admin">
+              <Button variant="outline">Back to Admin</Button>
+            </Link>
+          </div>
+        </div>
+
+        <TwoFactorSettings
+          initialEnabled={user.totpSecret !== null}
+          initialRecoveryCodesLeft={user.recoveryCodes.length}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+
+type Enrolment = { secret: string; qrCode: string };
+
+const inputClass =
+  "rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+export default function TwoFactorSettings({
+  initialEnabled,
+  initialRecoveryCodesLeft,
+}: {
+  initialEnabled: boolean;
+  initialRecoveryCodesLeft: number;
+}) {
+  const [enabled, setEnabled] = useState(initialEnabled);
+  const [codesLeft, setCodesLeft] = useState(initialRecoveryCodesLeft);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setLoading(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Request failed");
+        return null;
+      }
+      return data;
+    } catch {
+      toast.error("Network error. Please try again.");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEnrolment = async () => {
+    const data = await send("/api/admin/account/two-factor", "POST");
+    if (data) {
+      setEnrolment({ secret: data.secret, qrCode: data.qrCode });
+      setCode("");
+    }
+  };
+
+  const confirmEnrolment = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send("/api/admin/account/two-factor", "PUT", { code });
+    if (data) {
+      toast.success("Two-factor sign-in is on");
+      setEnabled(true);
+      setEnrolment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCodesLeft(data.recoveryCodes.length);
+      setCode("");
+    }
+  };
+
+  const regenerateCodes = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send("/api/admin/account/two-factor/recovery-codes", "POST", { code });
+    if (data) {
+      toast.success("New recovery codes created");
+      setRecoveryCodes(data.recoveryCodes);
+      setCodesLeft(data.recoveryCodes.length);
+      setCode("");
+    }
+  };
+
+  const disable = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = await send("/api/admin/account/two-factor", "DELETE", { password });
+    if (data) {
+      toast.success("Two-factor sign-in is off");
+      setEnabled(false);
+      setRecoveryCodes(null);
+      setCodesLeft(0);
+      setPassword("");
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
+      <Toaster />
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">
+          Two-factor sign-in
+        </h2>
+        <p className="text-sm text-slate-500">
+          {enabled
+            ? `On. Signing in asks for a code from your authenticator app. ${codesLeft} recovery code${codesLeft === 1 ? "" : "s"} left.`
+            : "Off. Turn it on to require a code from an authenticator app (Google Authenticator, 1Password, Authy…) after your password."}
+        </p>
+      </div>
+
+      {recoveryCodes && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-2 text-sm">
+          <p className="text-slate-700">
+            Save these recovery codes somewhere safe. Each one signs you in once
+            if you lose your phone. They won&apos;t be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-1 font-mono text-slate-900">
+            {recoveryCodes.map((c) => (
+              <span key={c}>{c}</span>
+            ))}
+          </div>
+          <Button type="button" size="sm" variant="outline" onClick={() => setRecoveryCodes(null)}>
+            I&apos;ve saved them
+          </Button>
+        </div>
+      )}
+
+      {!enabled && !enrolment && (
+        <Button onClick={startEnrolment} disabled={loading}>
+          Set up two-factor sign-in
+        </Button>
+      )}
+
+      {!enabled && enrolment && (
+        <form onSubmit={confirmEnrolment} className="space-y-3">
+          <p className="text-sm text-slate-600">
+            Scan this code with your authenticator app, then enter the 6-digit
+            code it shows.
+          </p>
+          <img src={enrolment.qrCode} alt="Two-factor QR code" className="h-[220px] w-[220px]" />
+          <p className="text-xs text-slate-500">
+            Can&apos;t scan? Enter this key instead:{" "}
+            <span className="font-mono text-slate-900">{enrolment.secret}</span>
+          </p>
+          <div className="flex gap-2">
+            <input
+              className={inputClass}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+            />
+            <Button type="submit" disabled={loading}>
+              Turn on
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setEnrolment(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {enabled && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <form onSubmit={regenerateCodes} className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">New recovery codes</p>
+            <div className="flex gap-2">
+              <input
+                className={`${inputClass} w-full`}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="Code from your app"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+              <Button type="submit" variant="outline" disabled={loading}>
+                Create
+              </Button>
+            </div>
+          </form>
+          <form onSubmit={disable} className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Turn off</p>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                className={`${inputClass} w-full`}
+                autoComplete="current-password"
+                placeholder="Your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+              <Button type="submit" variant="destructive" disabled={loading}>
+                Turn off
+              </Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+type Area = {
+  id: string;
+  name: string;
+  displayLabel: string | null;
+  active: boolean;
+};
+
+type Draft = { id: string; name: string; displayLabel: string };
+
+const inputClass =
+  "rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+export default function AreasEditor() {
+  const [areas, setAreas] = useState<Area[]>([]);
+  const [name, setName] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [mergeFrom, setMergeFrom] = useState<string | null>(null);
+  const [mergeInto, setMergeInto] = useState("");
+  const [dragId, setDragId] = useState<string | null>(null);
+
+  const loadAreas = async () => {
+    try {
+      const res = await fetch("/api/admin/areas", { cache: "no-store" });
+      const data = await res.json();
+      setAreas(data.areas || []);
+    } catch {
+      toast.error("Failed to load areas");
+    }
+  };
+
+  useEffect(() => {
+    loadAreas();
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/areas", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to create area");
+      } else {
+        toast.success("Area created");
+        setName("");
+        loadAreas();
+      }
+    } catch {
+      toast.error("Failed to create area");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateArea = async (id: string, body: Partial<Area>) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/areas/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to update area");
+        return false;
+      }
+      setAreas((prev) => prev.map((a) => (a.id === id ? data.area : a)));
+      return true;
+    } catch {
+      toast.error("Failed to update area");
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const ok = await updateArea(draft.id, {
+      name: draft.name,
+      displayLabel: draft.displayLabel,
+    });
+    if (ok) {
+      toast.success("Area saved");
+      setDraft(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeFrom || !mergeInto) return;
+    const source = areas.find((a) => a.id === mergeFrom);
+    const target = areas.find((a) => a.id === mergeInto);
+    if (
+      !confirm(
+        `Move every product from "${source?.name}" into "${target?.name}" and delete "${source?.name}"?`
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/areas/${mergeFrom}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetId: mergeInto }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to merge areas");
+        return;
+      }
+      toast.success(`Moved ${data.moved} products into ${target?.name}`);
+      setMergeFrom(null);
+      setMergeInto("");
+      loadAreas();
+    } catch {
+      toast.error("Failed to merge areas");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveOrder = async (ordered: Area[]) => {
+    const previous = areas;
+    setAreas(ordered);
+    try {
+      const res = await fetch("/api/admin/areas/reorder", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: ordered.map((a) => a.id) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to save order");
+        setAreas(previous);
+        loadAreas();
+      }
+    } catch {
+      toast.error("Failed to save order");
+      setAreas(previous);
+    }
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (!dragId || dragId === targetId) return;
+    const from = areas.findIndex((a) => a.id === dragId);
+    const to = areas.findIndex((a) => a.id === targetId);
+    const ordered = [...areas];
+    const [moved] = ordered.splice(from, 1);
+    ordered.splice(to, 0, moved);
+    setDragId(null);
+    saveOrder(ordered);
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <Toaster />
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-slate-900">Areas</h1>
+          <p className="text-sm text-slate-500">
+            Drag to set the order areas appear in generated documents. The
+            display label, if set, is shown in documents instead of the name.
+            Inactive areas are hidden when picking an area for a product.
+          </p>
+        </div>
+
+        <form
+          onSubmit={handleAdd}
+          className="bg-white border border-slate-200 rounded-lg shadow-sm p-4 flex gap-3"
+        >
+          <input
+            className="flex-1 rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            placeholder="New area name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="rounded-md bg-amber-500 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+            disabled={loading || !name.trim()}
+          >
+            Add
+          </button>
+        </form>
+
+        <div className="bg-white border border-slate-200 rounded-lg shadow-sm">
+          <ul className="divide-y divide-slate-100">
+            {areas.map((a) => (
+              <li
+                key={a.id}
+                draggable={!draft}
+                onDragStart={() => setDragId(a.id)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(a.id)}
+                onDragEnd={() => setDragId(null)}
+                className={`px-4 py-3 text-sm text-slate-800 space-y-2 ${
+                  dragId === a.id ? "opacity-50" : ""
+                } ${a.active ? "" : "bg-slate-50"}`}
+              >
+                {draft?.id === a.id ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      className={inputClass}
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      placeholder="Name"
+                    />
+                    <input
+                      className={inputClass}
+                      value={draft.displayLabel}
+                      onChange={(e) =>
+                        setDraft({ ...draft, displayLabel: e.target.value })
+                      }
+                      placeholder="Display label (optional)"
+                    />
+                    <button
+                      type="button"
+                      className="rounded-md bg-amber-500 text-white px-3 py-1 text-xs font-semibold disabled:opacity-60"
+                      disabled={loading || !draft.name.trim()}
+                      onClick={saveDraft}
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs text-slate-500 hover:text-slate-700 underline"
+                      onClick={() => setDraft(null)}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3">
+                    <span className="cursor-grab text-slate-400" title="Drag to reorder">
+                      ⋮⋮
+                    </span>
+                    <span className={a.active ? "" : "text-slate-400"}>{a.name}</span>
+                    {a.displayLabel && (
+                      <span className="text-xs text-slate-500">
+                        shown as “{a.displayLabel}”
+                      </span>
+                    )}
+                    {!a.active && (
+                      <span className="rounded bg-slate-200 px-2 py-0.5 text-xs text-slate-600">
+                        Inactive
+                      </span>
+                    )}
+                    <div className="ml-auto flex gap-3 text-xs">
+                      <button
+                        type="button"
+                        className="text-slate-600 hover:text-slate-900 underline"
+                        onClick={() =>
+                          setDraft({
+                            id: a.id,
+                            name: a.name,
+                            displayLabel: a.displayLabel || "",
+                          })
+                        }
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="text-slate-600 hover:text-slate-900 underline"
+                        disabled={loading}
+                        onClick={() => updateArea(a.id, { active: !a.active })}
+                      >
+                        {a.active ? "Deactivate" : "Activate"}
+                      </button>
+                      <button
+                        type="button"
+                        className="text-red-600 hover:text-red-800 underline"
+                        onClick={() => {
+                          setMergeFrom(a.id);
+                          setMergeInto("");
+                        }}
+                      >
+                        Merge…
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {mergeFrom === a.id && (
+                  <div className="flex flex-wrap items-center gap-2 rounded-md bg-red-50 p-2">
+                    <span className="text-xs text-slate-700">Merge into</span>
+                    <select
+                      className={inputClass}
+                      value={mergeInto}
+                      onChange={(e) => setMergeInto(e.target.value)}
+                    >
+                      <option value="">Choose an area</option>
+                      {areas
+                        .filter((other) => other.id !== a.id)
+                        .map((other) => (
+                          <option key={other.id} value={other.id}>
+                            {other.name}
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="rounded-md bg-red-600 text-white px-3 py-1 text-xs font-semibold disabled:opacity-60"
+                      disabled={loading || !mergeInto}
+                      onClick={handleMerge}
+                    >
+                      Merge
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs text-slate-500 hover:text-slate-700 underline"
+                      onClick={() => setMergeFrom(null)}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+            {areas.length === 0 && (
+              <li className="px-4 py-3 text-sm text-slate-500">
+                No areas yet. Add one above.
+              </li>
+            )}
+          </ul>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,153 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import {
+  AUDIT_ENTITIES,
+  AUDIT_PAGE_SIZE,
+  listAuditActors,
+  listAuditEvents,
+  type AuditFilters,
+} from "@/lib/audit";
+import { requireAdmin } from "@/lib/auth";
+
+export const revalidate = 0;
+
+const inputClass =
+  "rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+function formatJson(value: unknown) {
+  return value === null || value === undefined ? "—" : JSON.stringify(value, null, 2);
+}
+
+export default async function AuditPage({
+  searchParams,
+}: {
+  searchParams: Promise<AuditFilters>;
+}) {
+  await requireAdmin("owner");
+  const filters = await searchParams;
+
+  const [events, actors] = await Promise.all([
+    listAuditEvents(filters),
+    listAuditActors(),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-500">Admin</p>
+            <h1 className="text-2xl font-semibold text-slate-900">Audit log</h1>
+            <p className="text-sm text-slate-500">
+              Who changed the catalog, imported PDFs and generated selections.
+              Dates are UTC.
+            </p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Admin</Button>
+          </Link>
+        </div>
+
+        <form
+          method="get"
+          className="bg-white border border-slate-200 rounded-lg shadow-sm p-4 flex flex-wrap items-end gap-3"
+        >
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            Actor
+            <select name="actor" defaultValue={filters.actor ?? ""} className={inputClass}>
+              <option value="">Anyone</option>
+              {actors.map((actor) => (
+                <option key={actor} value={actor}>
+                  {actor}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            Entity
+            <select name="entity" defaultValue={filters.entity ?? ""} className={inputClass}>
+              <option value="">All</option>
+              {AUDIT_ENTITIES.map((entity) => (
+                <option key={entity} value={entity}>
+                  {entity}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            From
+            <input type="date" name="from" defaultValue={filters.from ?? ""} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            To
+            <input type="date" name="to" defaultValue={filters.to ?? ""} className={inputClass} />
+          </label>
+          <Button type="submit">Filter</Button>
+          <Link href="/admin/audit">
+            <Button type="button" variant="outline">
+              Clear
+            </Button>
+          </Link>
+        </form>
+
+        <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="bg-slate-50 text-left text-xs uppercase text-slate-500">
+                <th className="p-3">When</th>
+                <th className="p-3">Actor</th>
+                <th className="p-3">Action</th>
+                <th className="p-3">Details</th>
+                <th className="p-3">IP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-6 text-center text-slate-500">
+                    No events match these filters.
+                  </td>
+                </tr>
+              )}
+              {events.map((event) => (
+                <tr key={event.id} className="border-t border-slate-100 align-top">
+                  <td className="p-3 text-xs text-slate-500 whitespace-nowrap">
+                    {event.createdAt.toISOString().slice(0, 19).replace("T", " ")}
+                  </td>
+                  <td className="p-3 font-semibold">{event.actorName}</td>
+                  <td className="p-3 font-mono text-xs">{event.action}</td>
+                  <td className="p-3">
+                    <div>{event.summary || event.entityId || "—"}</div>
+                    {(event.before !== null || event.after !== null) && (
+                      <details className="mt-1">
+                        <summary className="cursor-pointer text-xs text-amber-700">
+                          Before / after
+                        </summary>
+                        <div className="mt-2 grid gap-2 md:grid-cols-2">
+                          <pre className="max-h-80 overflow-auto rounded bg-slate-50 p-2 text-xs">
+                            {formatJson(event.before)}
+                          </pre>
+                          <pre className="max-h-80 overflow-auto rounded bg-slate-50 p-2 text-xs">
+                            {formatJson(event.after)}
+                          </pre>
+                        </div>
+                      </details>
+                    )}
+                  </td>
+                  <td className="p-3 text-xs text-slate-500">{event.ip || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {events.length === AUDIT_PAGE_SIZE && (
+          <p className="text-xs text-slate-500">
+            Showing the latest {AUDIT_PAGE_SIZE} events; narrow the dates to see older ones.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,784 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { PRICE_SOURCES } from "@/lib/pricing";
+import {
+  isAcceptedLine,
+  REVIEW_THRESHOLD,
+  type ClassifiedLine,
+  type LineKind,
+} from "@/lib/supplier-parsers";
+
+type Row = {
+  id: string;
+  code: string;
+  manufacturerDescription: string;
+  price: string;
+  imageUrl: string;
+  /** Thumbnail from the PDF as base64 PNG; uploaded when the row is saved. */
+  image?: string;
+  notes: string;
+};
+
+type ImportAction = "create" | "update" | "skip";
+
+type ReviewRow = {
+  index: number;
+  code: string;
+  status: "new" | "unchanged" | "changed";
+  changes: string[];
+  duplicate: boolean;
+  /** Catalog code when `code` matched through a product alias. */
+  aliasOf: string | null;
+  incoming: {
+    description: string;
+    manufacturerDescription: string | null;
+    price: number | null;
+  };
+  existing: {
+    id: string;
+    code: string;
+    description: string;
+    manufacturerDescription: string | null;
+    price: string | null;
+  } | null;
+  action: ImportAction;
+};
+
+const STATUS_STYLES: Record<ReviewRow["status"], string> = {
+  new: "bg-emerald-100 text-emerald-700",
+  unchanged: "bg-slate-100 text-slate-600",
+  changed: "bg-amber-100 text-amber-700",
+};
+
+const KIND_STYLES: Record<LineKind, string> = {
+  product: "bg-emerald-100 text-emerald-700",
+  header: "bg-slate-100 text-slate-600",
+  total: "bg-sky-100 text-sky-700",
+  unparsed: "bg-red-100 text-red-700",
+};
+
+type LineFilter = LineKind | "review" | "all";
+
+const needsReview = (line: ClassifiedLine) =>
+  line.kind === "unparsed" || line.duplicate || line.confidence < REVIEW_THRESHOLD;
+
+/** Best guess at a row for a line the parser skipped: code first, price last. */
+function draftFromLine(line: ClassifiedLine): Row {
+  if (line.product) return { id: crypto.randomUUID(), ...line.product };
+  const cells = line.text.split(/\s{2,}/);
+  const last = cells.length > 1 ? cells[cells.length - 1] : "";
+  const hasPrice = /^\$?[\d,]+(\.\d+)?$/.test(last);
+  return {
+    id: crypto.randomUUID(),
+    code: (cells[0] || "").toUpperCase(),
+    manufacturerDescription: cells.slice(1, hasPrice ? -1 : undefined).join(" "),
+    price: hasPrice ? last.replace(/[$,]/g, "") : "",
+    imageUrl: "",
+    notes: "",
+  };
+}
+
+export default function BwaImport() {
+  const [rows, setRows] = useState<Row[]>([
+    { id: crypto.randomUUID(), code: "", manufacturerDescription: "", price: "", imageUrl: "", notes: "" },
+  ]);
+  const [saving, setSaving] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [parsedInfo, setParsedInfo] = useState<{
+    pageCount: number;
+    productCount: number;
+    imageCount: number;
+    ocrPages: number[];
+  } | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [review, setReview] = useState<ReviewRow[] | null>(null);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  // "" lets the server detect the supplier from the PDF text.
+  const [supplierId, setSupplierId] = useState("");
+  const [supplierName, setSupplierName] = useState("BWA");
+  const [lines, setLines] = useState<ClassifiedLine[] | null>(null);
+  const [lineFilter, setLineFilter] = useState<LineFilter>("review");
+  const [fixing, setFixing] = useState<{ index: number; row: Row } | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    fetch("/api/admin/suppliers")
+      .then((res) => res.json())
+      .then((data) => setSuppliers(data.suppliers || []))
+      .catch(() => toast.error("Failed to load suppliers"));
+  }, []);
+
+  const update = (id: string, field: keyof Row, value: string) => {
+    setReview(null);
+    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, [field]: value } : r)));
+  };
+
+  const addRow = () =>
+    setRows((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), code: "", manufacturerDescription: "", price: "", imageUrl: "", notes: "" },
+    ]);
+
+  const removeRow = (id: string) => {
+    if (rows.length === 1) return;
+    setReview(null);
+    setRows((prev) => prev.filter((r) => r.id !== id));
+  };
+
+  const handlePdfUpload = useCallback(async (file: File) => {
+    if (!file.type.includes("pdf") && !file.name.toLowerCase().endsWith(".pdf")) {
+      toast.error("Please upload a PDF file");
+      return;
+    }
+
+    setParsing(true);
+    setParsedInfo(null);
+    setReview(null);
+    setLines(null);
+    setFixing(null);
+    setAccepted(new Set());
+
+    try {
+      const formData = new FormData();
+      formData.append("pdf", file);
+      if (supplierId) formData.append("supplier", supplierId);
+
+      const res = await fetch("/api/admin/bwa/parse-pdf", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to parse PDF");
+        return;
+      }
+
+      setLines(data.lines || []);
+
+      if (!data.products || data.products.length === 0) {
+        setLineFilter("all");
+        toast.error(
+          data.ocr
+            ? "No products found in the OCR text. Check the lines below."
+            : "No products found in PDF. Check the lines below."
+        );
+        return;
+      }
+      setLineFilter("review");
+
+      // Convert parsed products to rows
+      const newRows: Row[] = data.products.map((p: {
+        code: string;
+        manufacturerDescription: string;
+        price: string;
+        imageUrl: string;
+        image?: string;
+        notes: string;
+      }) => ({
+        id: crypto.randomUUID(),
+        code: p.code || "",
+        manufacturerDescription: p.manufacturerDescription || "",
+        price: p.price || "",
+        imageUrl: p.imageUrl || "",
+        image: p.image,
+        notes: p.notes || "",
+      }));
+
+      setRows(newRows);
+      // The generic profile isn't a supplier; leave price history unattributed.
+      setSupplierName(data.supplierId === "generic" ? "" : data.supplier || "");
+      setParsedInfo({
+        pageCount: data.pageCount,
+        productCount: newRows.length,
+        imageCount: newRows.filter((r) => r.imageUrl || r.image).length,
+        ocrPages: data.ocrPages || [],
+      });
+      if (data.imageFailures) {
+        toast.error(`${data.imageFailures} product images could not be read`);
+      }
+      toast.success(
+        `Extracted ${newRows.length} products from PDF (${data.supplier}${
+          data.detected ? ", detected" : ""
+        })`
+      );
+    } catch (err) {
+      console.error("PDF parse error:", err);
+      toast.error("Failed to parse PDF");
+    } finally {
+      setParsing(false);
+    }
+  }, [supplierId]);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setIsDragging(false);
+
+      const files = e.dataTransfer.files;
+      if (files.length > 0) {
+        handlePdfUpload(files[0]);
+      }
+    },
+    [handlePdfUpload]
+  );
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  }, []);
+
+  const handleFileInput = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (files && files.length > 0) {
+        handlePdfUpload(files[0]);
+      }
+      e.target.value = "";
+    },
+    [handlePdfUpload]
+  );
+
+  const acceptLine = (index: number, row: Row) => {
+    if (!row.code.trim()) {
+      toast.error("Enter a Product Code");
+      return;
+    }
+    setReview(null);
+    // Replace the blank starter row rather than appending after it.
+    setRows((prev) =>
+      prev.length === 1 && !prev[0].code.trim() ? [row] : [...prev, row]
+    );
+    setAccepted((prev) => new Set(prev).add(index));
+    setFixing(null);
+  };
+
+  const shownLines = (lines || []).filter((line) =>
+    lineFilter === "all"
+      ? true
+      : lineFilter === "review"
+        ? needsReview(line)
+        : line.kind === lineFilter
+  );
+
+  const buildPayload = () =>
+    rows
+      .filter((r) => r.code.trim())
+      .map((r) => ({
+        code: r.code.trim(),
+        description: r.manufacturerDescription.trim() || r.code.trim(),
+        manufacturerDescription: r.manufacturerDescription.trim(),
+        productDetails: r.notes.trim(),
+        price: r.price.trim(),
+        imageUrl: r.imageUrl.trim(),
+        // A URL typed in replaces the PDF's thumbnail.
+        image: r.imageUrl.trim() ? undefined : r.image,
+        areaName: "Other",
+      }));
+
+  const postImport = (body: Record<string, unknown>) =>
+    fetch("/api/admin/product-selection/save", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...body,
+        source: PRICE_SOURCES.bwaImport,
+        supplier: supplierName,
+        priceTier: "trade",
+      }),
+    });
+
+  const handleReview = async () => {
+    const payload = buildPayload();
+
+    if (payload.length === 0) {
+      toast.error("Add at least one row with Product Code");
+      return;
+    }
+
+    setReviewing(true);
+    try {
+      const res = await postImport({ products: payload, dryRun: true });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to review import");
+      } else {
+        setReview(data.rows || []);
+      }
+    } catch {
+      toast.error("Failed to review import");
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const setAction = (index: number, action: ImportAction) => {
+    setReview((prev) =>
+      prev ? prev.map((r) => (r.index === index ? { ...r, action } : r)) : prev
+    );
+  };
+
+  const handleImport = async () => {
+    if (!review) return;
+    const payload = buildPayload().map((p, index) => ({
+      ...p,
+      action: review[index]?.action ?? "skip",
+    }));
+
+    setSaving(true);
+    try {
+      const res = await postImport({ products: payload });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.details || data?.error || "Failed to import");
+      } else {
+        toast.success(
+          `Created ${data.created}, updated ${data.updated}, skipped ${data.skipped}`
+        );
+        setReview(null);
+      }
+    } catch {
+      toast.error("Failed to import");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatChange = (r: ReviewRow, field: string) => {
+    if (!r.existing) return "";
+    if (field === "price") {
+      return `Price: $${r.existing.price ?? "—"} → $${r.incoming.price ?? "—"}`;
+    }
+    if (field === "description") {
+      return `Description: "${r.existing.description}" → "${r.incoming.description}"`;
+    }
+    return `Manufacturer: "${r.existing.manufacturerDescription ?? ""}" → "${r.incoming.manufacturerDescription ?? ""}"`;
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <Toaster />
+      <div className="max-w-5xl mx-auto space-y-6">
+        <h1 className="text-2xl font-semibold text-slate-900">Supplier PDF Import</h1>
+        <p className="text-sm text-slate-600">
+          Upload a supplier quote or order PDF to auto-extract products, or manually enter them below.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          Supplier
+          <select
+            className="rounded border border-slate-300 px-2 py-1.5 focus:border-[#00f0ff] focus:ring-1 focus:ring-[#00f0ff] outline-none"
+            value={supplierId}
+            onChange={(e) => {
+              setSupplierId(e.target.value);
+              const chosen = suppliers.find((s) => s.id === e.target.value);
+              if (chosen) setSupplierName(chosen.id === "generic" ? "" : chosen.name);
+            }}
+          >
+            <option value="">Detect from PDF</option>
+            {suppliers.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* PDF Upload Zone */}
+        <div
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          className={`
+            relative rounded-xl border-2 border-dashed transition-all duration-200 cursor-pointer
+            ${isDragging 
+              ? "border-[#00f0ff] bg-[#00f0ff]/10" 
+              : "border-slate-300 hover:border-[#00f0ff]/60 hover:bg-slate-100"
+            }
+            ${parsing ? "opacity-60 pointer-events-none" : ""}
+          `}
+        >
+          <input
+            type="file"
+            accept=".pdf,application/pdf"
+            onChange={handleFileInput}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            disabled={parsing}
+          />
+          <div className="flex flex-col items-center justify-center py-12 px-6">
+            <div className={`
+              w-16 h-16 rounded-full flex items-center justify-center mb-4 transition-colors
+              ${isDragging ? "bg-[#00f0ff]/20" : "bg-slate-200"}
+            `}>
+              {parsing ? (
+                <svg className="w-8 h-8 text-[#00f0ff] animate-spin" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                </svg>
+              ) : (
+                <svg className={`w-8 h-8 ${isDragging ? "text-[#00f0ff]" : "text-slate-500"}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                </svg>
+              )}
+            </div>
+            <p className="text-lg font-medium text-slate-700 mb-1">
+              {parsing ? "Extracting products..." : isDragging ? "Drop PDF here" : "Upload supplier PDF"}
+            </p>
+            <p className="text-sm text-slate-500 text-center">
+              {parsing 
+                ? "Parsing document and extracting product information..."
+                : "Drag and drop a quote/order PDF, or click to browse"
+              }
+            </p>
+          </div>
+        </div>
+
+        {/* Parsed Info Banner */}
+        {parsedInfo && (
+          <div className="flex items-center gap-3 px-4 py-3 rounded-lg bg-[#00f0ff]/10 border border-[#00f0ff]/30">
+            <svg className="w-5 h-5 text-[#00f0ff]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-sm text-slate-700">
+              Extracted <strong>{parsedInfo.productCount}</strong> products
+              {parsedInfo.imageCount > 0 && <> ({parsedInfo.imageCount} with images)</>} from{" "}
+              <strong>{parsedInfo.pageCount}</strong> page{parsedInfo.pageCount !== 1 ? "s" : ""}
+              {supplierName && <> ({supplierName})</>}
+              {parsedInfo.ocrPages.length > 0 && (
+                <span className="ml-2 rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                  OCR on page{parsedInfo.ocrPages.length !== 1 ? "s" : ""}{" "}
+                  {parsedInfo.ocrPages.join(", ")}: check codes and prices
+                </span>
+              )}
+            </span>
+            <button
+              type="button"
+              onClick={() => {
+                setRows([{ id: crypto.randomUUID(), code: "", manufacturerDescription: "", price: "", imageUrl: "", notes: "" }]);
+                setParsedInfo(null);
+                setReview(null);
+                setLines(null);
+                setFixing(null);
+              }}
+              className="ml-auto text-xs text-slate-500 hover:text-slate-700 underline"
+            >
+              Clear all
+            </button>
+          </div>
+        )}
+
+        {/* Source lines */}
+        {lines && lines.length > 0 && (
+          <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="text-lg font-semibold text-slate-800">PDF lines</h2>
+              <div className="flex flex-wrap gap-1 text-xs">
+                {(["review", "all", "product", "header", "total", "unparsed"] as LineFilter[]).map(
+                  (f) => {
+                    const count = lines.filter((line) =>
+                      f === "all" ? true : f === "review" ? needsReview(line) : line.kind === f
+                    ).length;
+                    return (
+                      <button
+                        key={f}
+                        type="button"
+                        onClick={() => setLineFilter(f)}
+                        className={`rounded px-2 py-1 border transition-colors ${
+                          lineFilter === f
+                            ? "border-[#00f0ff] bg-[#00f0ff]/10 text-slate-800"
+                            : "border-slate-200 text-slate-500 hover:bg-slate-50"
+                        }`}
+                      >
+                        {f === "review" ? "Needs review" : f[0].toUpperCase() + f.slice(1)} ({count})
+                      </button>
+                    );
+                  }
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-[3rem,5.5rem,3.5rem,2fr,2fr,7rem] gap-3 text-xs font-semibold text-slate-500 mb-2">
+              <span>Page</span>
+              <span>Kind</span>
+              <span>Conf.</span>
+              <span>Original line</span>
+              <span>Parsed</span>
+              <span />
+            </div>
+            <div className="divide-y divide-slate-100 max-h-[32rem] overflow-y-auto">
+              {shownLines.map((line) => (
+                <div key={line.index} className="py-2 text-sm">
+                  <div className="grid grid-cols-[3rem,5.5rem,3.5rem,2fr,2fr,7rem] gap-3 items-start">
+                    <span className="text-slate-500">{line.page}</span>
+                    <span>
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${KIND_STYLES[line.kind]}`}>
+                        {line.kind}
+                      </span>
+                    </span>
+                    <span
+                      className={
+                        line.confidence < REVIEW_THRESHOLD ? "text-amber-600 font-semibold" : "text-slate-500"
+                      }
+                    >
+                      {Math.round(line.confidence * 100)}%
+                    </span>
+                    <div>
+                      <div className="font-mono text-xs text-slate-800 whitespace-pre-wrap break-words">
+                        {line.text}
+                      </div>
+                      <div className="text-xs text-slate-400 mt-0.5">
+                        {line.rule}
+                        {line.ocr && <span className="ml-1 text-amber-600">· OCR</span>}
+                      </div>
+                    </div>
+                    <div className="text-xs text-slate-600">
+                      {line.product ? (
+                        <>
+                          <div className="font-semibold text-slate-800">{line.product.code}</div>
+                          <div>{line.product.manufacturerDescription || "—"}</div>
+                          <div>
+                            {line.product.price ? `$${line.product.price}` : "No price"}
+                            {line.product.notes && ` · ${line.product.notes}`}
+                          </div>
+                          {line.duplicate && (
+                            <div className="text-red-600">Code already on an earlier line.</div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-slate-400">—</span>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      {accepted.has(line.index) ? (
+                        <span className="text-xs text-emerald-600">Added</span>
+                      ) : isAcceptedLine(line) ? (
+                        <span className="text-xs text-slate-400">In products</span>
+                      ) : (
+                        <button
+                          type="button"
+                          className="text-xs text-slate-600 hover:text-slate-900 underline"
+                          onClick={() => setFixing({ index: line.index, row: draftFromLine(line) })}
+                        >
+                          Fix &amp; add
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {fixing?.index === line.index && (
+                    <div className="mt-2 flex flex-wrap items-center gap-2 rounded-md bg-[#00f0ff]/5 border border-[#00f0ff]/30 p-2">
+                      {(
+                        [
+                          ["code", "Code", "w-32"],
+                          ["manufacturerDescription", "Product Name", "flex-1 min-w-[12rem]"],
+                          ["price", "Price", "w-24"],
+                          ["notes", "Notes", "w-32"],
+                        ] as [keyof Row, string, string][]
+                      ).map(([field, placeholder, width]) => (
+                        <input
+                          key={field}
+                          className={`rounded border border-slate-300 px-2 py-1 text-sm ${width} focus:border-[#00f0ff] focus:ring-1 focus:ring-[#00f0ff] outline-none`}
+                          placeholder={placeholder}
+                          value={fixing.row[field]}
+                          onChange={(e) =>
+                            setFixing({
+                              ...fixing,
+                              row: {
+                                ...fixing.row,
+                                [field]:
+                                  field === "code"
+                                    ? e.target.value.toUpperCase()
+                                    : field === "price"
+                                      ? e.target.value.replace(/[^\d.]/g, "")
+                                      : e.target.value,
+                              },
+                            })
+                          }
+                        />
+                      ))}
+                      <button
+                        type="button"
+                        className="px-3 py-1 rounded-md bg-[#00f0ff] text-[#36454f] text-xs font-semibold hover:bg-[#00f0ff]/80 transition-colors"
+                        onClick={() => acceptLine(line.index, fixing.row)}
+                      >
+                        Add to products
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-slate-500 hover:text-slate-700 underline"
+                        onClick={() => setFixing(null)}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {shownLines.length === 0 && (
+                <div className="py-3 text-sm text-slate-500">No lines in this view.</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Manual Entry Section */}
+        <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-slate-800">Products</h2>
+            <span className="text-sm text-slate-500">{rows.filter(r => r.code.trim()).length} products with codes</span>
+          </div>
+          <div className="grid grid-cols-[1.5fr,2fr,1fr,2fr,1fr] gap-3 text-sm font-semibold text-slate-600 mb-2">
+            <span>Product Code</span>
+            <span>Product Name (Manufacturer Description)</span>
+            <span>Price (ex GST)</span>
+            <span>Image URL (optional)</span>
+            <span>Notes</span>
+          </div>
+          <div className="space-y-3">
+            {rows.map((r) => (
+              <div
+                key={r.id}
+                className="grid grid-cols-[1.5fr,2fr,1fr,2fr,1fr] gap-3 items-center text-sm"
+              >
+                <input
+                  className="rounded border border-slate-300 px-2 py-1.5 focus:border-[#00f0ff] focus:ring-1 focus:ring-[#00f0ff] outline-none transition-colors"
+                  value={r.code}
+                  onChange={(e) => update(r.id, "code", e.target.value.toUpperCase())}
+                  placeholder="e.g. BW-001"
+                />
+                <input
+                  className="rounded border border-slate-300 px-2 py-1.5 focus:border-[#00f0ff] focus:ring-1 focus:ring-[#00f0ff] outline-none transition-colors"
+                  value={r.manufacturerDescription}
+                  onChange={(e) => update(r.id, "manufacturerDescription", e.target.value)}
+                  placeholder="Product Name"
+                />
+                <input
+                  className="rounded border border-slate-300 px-2 py-1.5 focus:border-[#00f0ff] focus:ring-1 focus:ring-[#00f0ff] outline-none transition-colors"
+                  value={r.price}
+                  onChange={(e) => update(r.id, "price", e.target.value.replace(/[^\d.]/g, ""))}
+                  placeholder="99.99"
+                />
+                <input
+                  className="rounded border border-slate-300 px-2 py-1.5 focus:border-[#00f0ff] focus:ring-1 focus:ring-[#00f0ff] outline-none transition-colors"
+                  value={r.imageUrl}
+                  onChange={(e) => update(r.id, "imageUrl", e.target.value)}
+                  placeholder={r.image ? "Image from PDF" : "https://..."}
+                />
+                <div className="flex gap-2 items-center">
+                  <input
+                    className="rounded border border-slate-300 px-2 py-1.5 w-full focus:border-[#00f0ff] focus:ring-1 focus:ring-[#00f0ff] outline-none transition-colors"
+                    value={r.notes}
+                    onChange={(e) => update(r.id, "notes", e.target.value)}
+                    placeholder="Notes"
+                  />
+                  {rows.length > 1 && (
+                    <button
+                      className="text-red-500 hover:text-red-700 text-xs whitespace-nowrap"
+                      type="button"
+                      onClick={() => removeRow(r.id)}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-4 flex gap-3">
+            <button
+              type="button"
+              className="px-3 py-2 rounded-md border border-slate-300 text-sm hover:bg-slate-50 transition-colors"
+              onClick={addRow}
+            >
+              + Add Row
+            </button>
+            <button
+              type="button"
+              className="px-4 py-2 rounded-md bg-[#00f0ff] text-[#36454f] text-sm font-semibold disabled:opacity-60 hover:bg-[#00f0ff]/80 transition-colors"
+              onClick={handleReview}
+              disabled={reviewing || saving}
+            >
+              {reviewing ? "Checking..." : "Review changes"}
+            </button>
+          </div>
+        </div>
+
+        {/* Dry-run review */}
+        {review && (
+          <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-slate-800">Review import</h2>
+              <span className="text-sm text-slate-500">
+                {review.filter((r) => r.status === "new").length} new ·{" "}
+                {review.filter((r) => r.status === "changed").length} changed ·{" "}
+                {review.filter((r) => r.status === "unchanged").length} unchanged
+              </span>
+            </div>
+            <div className="divide-y divide-slate-100">
+              {review.map((r) => (
+                <div key={r.index} className="flex items-start gap-3 py-2 text-sm">
+                  <span className="w-36 font-semibold text-slate-800">{r.code}</span>
+                  <span className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[r.status]}`}>
+                    {r.status}
+                  </span>
+                  <div className="flex-1 text-xs text-slate-600 space-y-0.5">
+                    {r.changes.map((field) => (
+                      <div key={field}>{formatChange(r, field)}</div>
+                    ))}
+                    {r.aliasOf && (
+                      <div className="text-slate-500">Alias of {r.aliasOf}; updates that product.</div>
+                    )}
+                    {r.duplicate && (
+                      <div className="text-red-600">Code appears more than once in this import.</div>
+                    )}
+                  </div>
+                  <select
+                    className="rounded border border-slate-300 px-2 py-1 text-sm"
+                    value={r.action}
+                    onChange={(e) => setAction(r.index, e.target.value as ImportAction)}
+                  >
+                    {r.existing ? (
+                      <option value="update">Update</option>
+                    ) : (
+                      <option value="create">Create</option>
+                    )}
+                    <option value="skip">Skip</option>
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="mt-4 flex gap-3">
+              <button
+                type="button"
+                className="px-3 py-2 rounded-md border border-slate-300 text-sm hover:bg-slate-50 transition-colors"
+                onClick={() => setReview(null)}
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="px-4 py-2 rounded-md bg-[#00f0ff] text-[#36454f] text-sm font-semibold disabled:opacity-60 hover:bg-[#00f0ff]/80 transition-colors"
+                onClick={handleImport}
+                disabled={saving}
+              >
+                {saving ? "Importing..." : "Add to system"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
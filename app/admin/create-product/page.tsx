@@ -5,7 +5,7 @@ import { requireAdmin } from "@/lib/auth";
 import CreateProductForm from "./product-form";
 
 export default async function CreateProductPage() {
-  await requireAdmin();
+  await requireAdmin("estimator");
 
   return (
     <main className="min-h-screen bg-slate-50 py-16 px-4">
@@ -71,7 +71,7 @@ export default function CreateProductForm() {
     const loadAreas = async () => {
       setLoadingAreas(true);
       try {
-        const res = await fetch("/api/admin/areas", { cache: "no-store" });
+        const res = await fetch("/api/admin/areas?active=1", { cache: "no-store" });
         const data = await res.json();
         setAreas(data.areas || []);
       } catch (err) {
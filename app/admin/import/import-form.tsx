@@ -0,0 +1,339 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+import {
+  IMPORT_FIELDS,
+  applyMapping,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowReview,
+} from "@/lib/catalog-import";
+
+type Sheet = {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+};
+
+const inputClass =
+  "rounded-md border border-slate-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+export default function ImportForm() {
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [supplier, setSupplier] = useState("");
+  const [priceTier, setPriceTier] = useState<"trade" | "retail">("trade");
+  const [review, setReview] = useState<ImportRowReview[] | null>(null);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const mapped = useMemo(
+    () => (sheet ? applyMapping(sheet.rows, mapping) : []),
+    [sheet, mapping]
+  );
+
+  const missingRequired = IMPORT_FIELDS.filter(
+    (f) => f.required && mapping[f.key] === undefined
+  );
+  const errorCount = review?.filter((r) => r.errors.length > 0).length ?? 0;
+
+  const handleFile = async (file: File) => {
+    setUploading(true);
+    setReview(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch("/api/admin/import/parse", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to read file");
+        return;
+      }
+      if (!data.rows?.length) {
+        toast.error("No rows found below the header");
+        return;
+      }
+      setSheet({ fileName: data.fileName, headers: data.headers, rows: data.rows });
+      setMapping(data.mapping || {});
+      toast.success(`Read ${data.rows.length} rows from ${data.fileName}`);
+    } catch {
+      toast.error("Failed to read file");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setReview(null);
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === "") delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const postImport = (dryRun: boolean) =>
+    fetch("/api/admin/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rows: mapped, dryRun, supplier, priceTier }),
+    });
+
+  const handleValidate = async () => {
+    if (missingRequired.length > 0) {
+      toast.error(`Map a column to ${missingRequired.map((f) => f.label).join(", ")}`);
+      return;
+    }
+    setValidating(true);
+    try {
+      const res = await postImport(true);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to validate rows");
+        return;
+      }
+      setReview(data.rows || []);
+    } catch {
+      toast.error("Failed to validate rows");
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const res = await postImport(false);
+      const data = await res.json();
+      if (!res.ok) {
+        if (data?.rows) setReview(data.rows);
+        toast.error(data?.error || data?.details || "Failed to import");
+        return;
+      }
+      toast.success(`Created ${data.created}, updated ${data.updated}`);
+      for (const failure of data.imageFailures ?? []) {
+        toast.error(`${failure.code}: image not copied (${failure.error})`);
+      }
+      setSheet(null);
+      setReview(null);
+    } catch {
+      toast.error("Failed to import");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const visibleRows = mapped
+    .map((row, index) => ({ row, index, review: review?.[index] }))
+    .filter(
+      ({ review: r }) =>
+        !onlyProblems || (r && (r.errors.length > 0 || r.warnings.length > 0))
+    );
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <Toaster />
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-500">Admin</p>
+            <h1 className="text-2xl font-semibold text-slate-900">
+              Spreadsheet Import
+            </h1>
+            <p className="text-sm text-slate-500">
+              Upload a supplier price list (.csv or .xlsx), match its columns to
+              product fields, check the rows, then import.
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <a href="/admin">Back to Admin</a>
+          </Button>
+        </div>
+
+        <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            disabled={uploading || importing}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+            className="text-sm"
+          />
+          {uploading && <p className="text-sm text-slate-500">Reading file...</p>}
+          {sheet && (
+            <p className="text-sm text-slate-600">
+              <strong>{sheet.fileName}</strong>: {sheet.rows.length} rows,{" "}
+              {sheet.headers.length} columns
+            </p>
+          )}
+        </div>
+
+        {sheet && (
+          <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-slate-900">Columns</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <label key={field.key} className="space-y-1 text-sm">
+                  <span className="block font-medium text-slate-700">
+                    {field.label}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </span>
+                  <select
+                    className={`${inputClass} w-full`}
+                    value={mapping[field.key] ?? ""}
+                    onChange={(e) => setColumn(field.key, e.target.value)}
+                  >
+                    <option value="">Not in this file</option>
+                    {sheet.headers.map((header, i) => (
+                      <option key={i} value={i}>
+                        {header || `Column ${i + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4 pt-2 border-t border-slate-100">
+              <label className="space-y-1 text-sm">
+                <span className="block font-medium text-slate-700">Supplier</span>
+                <input
+                  className={inputClass}
+                  value={supplier}
+                  onChange={(e) => setSupplier(e.target.value)}
+                  placeholder="Recorded in price history"
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="block font-medium text-slate-700">Prices are</span>
+                <select
+                  className={inputClass}
+                  value={priceTier}
+                  onChange={(e) => setPriceTier(e.target.value as "trade" | "retail")}
+                >
+                  <option value="trade">Trade</option>
+                  <option value="retail">Retail</option>
+                </select>
+              </label>
+              <Button onClick={handleValidate} disabled={validating || importing}>
+                {validating ? "Checking..." : "Check rows"}
+              </Button>
+              {review && (
+                <Button
+                  onClick={handleImport}
+                  disabled={importing || errorCount > 0}
+                  variant={errorCount > 0 ? "outline" : "default"}
+                >
+                  {importing
+                    ? "Importing..."
+                    : errorCount > 0
+                      ? `${errorCount} row${errorCount === 1 ? "" : "s"} to fix`
+                      : `Import ${mapped.length} rows`}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {sheet && (
+          <div className="space-y-3">
+            {review && (
+              <div className="flex items-center justify-between text-sm text-slate-600">
+                <span>
+                  {review.filter((r) => r.status === "new").length} new,{" "}
+                  {review.filter((r) => r.status === "update").length} updates,{" "}
+                  {errorCount} with errors
+                </span>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={onlyProblems}
+                    onChange={(e) => setOnlyProblems(e.target.checked)}
+                  />
+                  Only rows with problems
+                </label>
+              </div>
+            )}
+            <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="bg-slate-50 text-left text-xs uppercase text-slate-500">
+                    <th className="p-3">Row</th>
+                    {IMPORT_FIELDS.map((f) => (
+                      <th key={f.key} className="p-3">
+                        {f.label}
+                      </th>
+                    ))}
+                    <th className="p-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.slice(0, 500).map(({ row, index, review: r }) => (
+                    <tr
+                      key={index}
+                      className={`border-t border-slate-100 align-top ${
+                        r?.errors.length ? "bg-red-50" : ""
+                      }`}
+                    >
+                      {/* +2: one for the header row, one for 1-based numbering */}
+                      <td className="p-3 text-slate-400">{index + 2}</td>
+                      {IMPORT_FIELDS.map((f) => (
+                        <td key={f.key} className="p-3 max-w-xs truncate" title={row[f.key]}>
+                          {row[f.key]}
+                        </td>
+                      ))}
+                      <td className="p-3 min-w-[12rem]">
+                        {r ? (
+                          <div className="space-y-1">
+                            <span
+                              className={`rounded px-2 py-0.5 text-xs font-medium ${
+                                r.status === "new"
+                                  ? "bg-emerald-100 text-emerald-700"
+                                  : "bg-amber-100 text-amber-700"
+                              }`}
+                            >
+                              {r.status === "new" ? "New" : "Update"}
+                            </span>
+                            {r.errors.map((e) => (
+                              <p key={e} className="text-xs text-red-700">
+                                {e}
+                              </p>
+                            ))}
+                            {r.warnings.map((w) => (
+                              <p key={w} className="text-xs text-amber-700">
+                                {w}
+                              </p>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-slate-400">Not checked</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {visibleRows.length > 500 && (
+              <p className="text-xs text-slate-500">
+                Showing the first 500 of {visibleRows.length} rows.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
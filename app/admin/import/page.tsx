@@ -0,0 +1,7 @@
+import { requireAdmin } from "@/lib/auth";
+import ImportForm from "./import-form";
+
+export default async function ImportPage() {
+  await requireAdmin("estimator");
+  return <ImportForm />;
+}
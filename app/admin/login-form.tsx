@@ -16,6 +16,9 @@ export default function AdminLoginForm({ redirectTo }: Props) {
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Set once the password is accepted for a user with two-factor on.
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
 
   const initialError = useMemo(
     () => searchParams.get("error"),
@@ -34,12 +37,50 @@ export default function AdminLoginForm({ redirectTo }: Props) {
         body: JSON.stringify({ username, password }),
       });
 
+      const data = await response.json().catch(() => ({}));
       if (!response.ok) {
-        const data = await response.json().catch(() => ({}));
         setError(data.error || "Login failed. Check credentials.");
         return;
       }
 
+      if (data.twoFactor) {
+        setChallenge(data.challenge);
+        setPassword("");
+        return;
+      }
+
+      router.push(redirectTo || "/admin");
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/admin/login/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challenge, code }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Invalid code.");
+        setCode("");
+        // An expired challenge means starting over from the password.
+        if (data.expired) {
+          setChallenge(null);
+        }
+        return;
+      }
+
       router.push(redirectTo || "/admin");
       router.refresh();
     } catch {
@@ -49,12 +90,62 @@ export default function AdminLoginForm({ redirectTo }: Props) {
     }
   };
 
+  if (challenge) {
+    return (
+      <div className="max-w-md mx-auto bg-white shadow-lg border border-slate-200 rounded-lg p-6 space-y-4">
+        <div className="space-y-1">
+          <h1 className="text-xl font-semibold text-slate-900">
+            Two-factor sign-in
+          </h1>
+          <p className="text-sm text-slate-500">
+            Enter the 6-digit code from your authenticator app, or one of your
+            recovery codes.
+          </p>
+        </div>
+
+        <form onSubmit={handleVerify} className="space-y-4">
+          <input
+            type="text"
+            inputMode="numeric"
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm tracking-widest focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Checking..." : "Verify"}
+          </Button>
+          <button
+            type="button"
+            className="w-full text-sm text-slate-500 hover:text-slate-700"
+            onClick={() => {
+              setChallenge(null);
+              setCode("");
+              setError(null);
+            }}
+          >
+            Back to password
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-md mx-auto bg-white shadow-lg border border-slate-200 rounded-lg p-6 space-y-4">
       <div className="space-y-1">
         <h1 className="text-xl font-semibold text-slate-900">Admin Login</h1>
         <p className="text-sm text-slate-500">
-          Please enter the admin credentials to continue.
+          Sign in with your user account to continue.
         </p>
         {initialError === "unauthenticated" && (
           <p className="text-sm text-red-600">
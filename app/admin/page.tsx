@@ -3,16 +3,24 @@ import Link from "next/link";
 import AdminLoginForm, { LogoutButton } from "./login-form";
 
 import { Button } from "@/components/ui/button";
-import { getSessionFromCookies } from "@/lib/auth";
+import { getCurrentSession } from "@/lib/auth";
+import { hasRole } from "@/lib/users";
 
-export default async function AdminPage() {
-  const session = await getSessionFromCookies();
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string; next?: string }>;
+}) {
+  const session = await getCurrentSession();
+  const { error, next } = await searchParams;
 
   if (!session) {
     return (
       <main className="min-h-screen bg-slate-50 py-16 px-4">
         <div className="max-w-4xl mx-auto">
-          <AdminLoginForm />
+          <AdminLoginForm
+            redirectTo={next?.startsWith("/admin/") ? next : undefined}
+          />
         </div>
       </main>
     );
@@ -27,18 +35,32 @@ export default async function AdminPage() {
             <h1 className="text-2xl font-semibold text-slate-900">
               {session.username}
             </h1>
+            <p className="text-sm text-slate-500 capitalize">{session.role}</p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/admin/account">
+              <Button variant="outline">Account</Button>
+            </Link>
+            <LogoutButton />
           </div>
-          <LogoutButton />
         </div>
 
+        {error === "forbidden" && (
+          <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+            Your role doesn&apos;t have access to that page.
+          </div>
+        )}
+
         <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
           <h2 className="text-lg font-semibold text-slate-900">
             Admin Actions
           </h2>
           <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-3 gap-4">
-            <Link href="/admin/create-product" className="w-full">
-              <Button className="w-full">Create Product</Button>
-            </Link>
+            {hasRole(session.role, "estimator") && (
+              <Link href="/admin/create-product" className="w-full">
+                <Button className="w-full">Create Product</Button>
+              </Link>
+            )}
             <Link href="/admin/product-selection" className="w-full">
               <Button variant="outline" className="w-full">
                 Create Product Selection
@@ -56,9 +78,28 @@ export default async function AdminPage() {
             </Link>
             <Link href="/admin/bwa" className="w-full">
               <Button variant="outline" className="w-full">
-                BWA Import
+                Supplier PDF Import
+              </Button>
+            </Link>
+            <Link href="/admin/import" className="w-full">
+              <Button variant="outline" className="w-full">
+                Spreadsheet Import
               </Button>
             </Link>
+            {hasRole(session.role, "owner") && (
+              <Link href="/admin/users" className="w-full">
+                <Button variant="outline" className="w-full">
+                  Users
+                </Button>
+              </Link>
+            )}
+            {hasRole(session.role, "owner") && (
+              <Link href="/admin/audit" className="w-full">
+                <Button variant="outline" className="w-full">
+                  Audit Log
+                </Button>
+              </Link>
+            )}
           </div>
         </div>
       </div>
@@ -10,11 +10,18 @@ type ApiProduct = {
   productDetails: string | null;
   price: number | null;
   imageUrl: string;
-  area: { id: string; name: string };
+  area: {
+    id: string;
+    name: string;
+    displayLabel: string | null;
+    sortOrder: number;
+  };
+  prices?: { effectiveAt: string }[];
 };
 
 type SelectedProduct = {
   id: string;
+  productId: string | null;
   code: string;
   areaName: string;
   description: string;
@@ -22,19 +29,95 @@ type SelectedProduct = {
   productDetails: string | null;
   price: number | null;
   imageUrl: string;
+  pricedAt: string | null;
   quantity: string;
   notes: string;
+  approvalStatus?: string;
+  clientComment?: string | null;
 };
 
 type Message = { type: "success" | "error" | "info"; text: string };
 
-const API_BASE = "/api/admin/product-selection";
+type CodeSuggestion = {
+  code: string;
+  candidates: { product: ApiProduct; score: number; reason: string }[];
+};
 
-export default function ProductSheetApp() {
+type SelectionItem = {
+  id: string;
+  productId: string | null;
+  code: string;
+  areaName: string;
+  description: string;
+  manufacturerDescription: string | null;
+  productDetails: string | null;
+  price: string | null;
+  pricedAt: string | null;
+  imageUrl: string | null;
+  quantity: string;
+  notes: string;
+  approvalStatus: string;
+  clientComment: string | null;
+};
+
+type Revision = {
+  id: string;
+  number: number;
+  createdAt: string;
+  createdBy: string;
+  fileName: string;
+};
+
+type Selection = {
+  id: string;
+  updatedAt: string;
+  address: string;
+  date: string | null;
+  contactName: string | null;
+  company: string | null;
+  phoneNumber: string | null;
+  email: string | null;
+  shareToken: string | null;
+  signedOffAt: string | null;
+  signedOffBy: string | null;
+  signature: string | null;
+  clientNote: string | null;
+  items: SelectionItem[];
+  revisions: Revision[];
+};
+
+type ClientReview = Pick<
+  Selection,
+  "shareToken" | "signedOffAt" | "signedOffBy" | "signature" | "clientNote"
+>;
+
+type SelectionSummary = {
+  id: string;
+  updatedAt: string;
+  address: string;
+  contactName: string | null;
+  signedOffAt: string | null;
+  _count: { items: number; revisions: number };
+  approval: { approved: number; rejected: number; pending: number };
+};
+
+const API_BASE = "/api/admin/product-selection";
+const SELECTIONS_API = "/api/admin/selections";
+
+export default function ProductSheetApp({
+  initialSelectionId,
+  canEdit,
+}: {
+  initialSelectionId?: string;
+  /** Estimators can save selections; viewers can only open and generate them. */
+  canEdit: boolean;
+}) {
   const [message, setMessage] = useState<Message | null>(null);
   const [generating, setGenerating] = useState(false);
   const [loadingProducts, setLoadingProducts] = useState(false);
   const [parsingPdf, setParsingPdf] = useState(false);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [pdfSupplier, setPdfSupplier] = useState("");
   const [isDragging, setIsDragging] = useState(false);
 
   const [address, setAddress] = useState("");
@@ -43,6 +126,13 @@ export default function ProductSheetApp() {
   const [company, setCompany] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [email, setEmail] = useState("");
+  const [includePriceDates, setIncludePriceDates] = useState(false);
+
+  const [selectionId, setSelectionId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [savedSelections, setSavedSelections] = useState<SelectionSummary[]>([]);
+  const [savingSelection, setSavingSelection] = useState(false);
+  const [clientReview, setClientReview] = useState<ClientReview | null>(null);
 
   const [search, setSearch] = useState("");
   const [products, setProducts] = useState<ApiProduct[]>([]);
@@ -50,13 +140,24 @@ export default function ProductSheetApp() {
   const [pdfParseInfo, setPdfParseInfo] = useState<{
     found: number;
     notFound: string[];
+    suggestions: CodeSuggestion[];
+    /** Supplier whose codes these are; empty for the generic profile. */
+    supplier: string;
   } | null>(null);
+  const [rememberMatches, setRememberMatches] = useState(true);
 
+  // Search results grouped by area, in the same order as the documents.
   const productsByArea = useMemo(() => {
-    return products.reduce<Record<string, ApiProduct[]>>((acc, p) => {
-      acc[p.area] = acc[p.area] ? [...acc[p.area], p] : [p];
-      return acc;
-    }, {});
+    const groups = new Map<string, { area: ApiProduct["area"]; items: ApiProduct[] }>();
+    for (const p of products) {
+      const group = groups.get(p.area.id) ?? { area: p.area, items: [] };
+      group.items.push(p);
+      groups.set(p.area.id, group);
+    }
+    return Array.from(groups.values()).sort(
+      (a, b) =>
+        a.area.sortOrder - b.area.sortOrder || a.area.name.localeCompare(b.area.name)
+    );
   }, [products]);
 
   useEffect(() => {
@@ -105,7 +206,9 @@ export default function ProductSheetApp() {
         ...prev,
         {
           ...p,
+          productId: p.id,
           areaName: p.area?.name || "Other",
+          pricedAt: p.prices?.[0]?.effectiveAt ?? null,
           quantity: "",
           notes: "",
         },
@@ -113,6 +216,45 @@ export default function ProductSheetApp() {
     });
   }, []);
 
+  // Accept a suggested catalog match for a PDF code that had no exact match,
+  // optionally saving the code as an alias so the next PDF matches exactly.
+  const confirmSuggestion = async (code: string, product: ApiProduct) => {
+    addProductToSelected(product);
+    const supplier = pdfParseInfo?.supplier ?? "";
+    setPdfParseInfo((prev) =>
+      prev
+        ? {
+            ...prev,
+            found: prev.found + 1,
+            notFound: prev.notFound.filter((c) => c !== code),
+            suggestions: prev.suggestions.filter((s) => s.code !== code),
+          }
+        : prev
+    );
+
+    if (!rememberMatches || !canEdit) return;
+    try {
+      const res = await fetch(`/api/admin/products/${product.id}/aliases`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ supplier, code }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setMessage({
+          type: "info",
+          text: `Added ${product.code}, but ${code} wasn't saved as an alias: ${data?.error || "request failed"}.`,
+        });
+      }
+    } catch {
+      setMessage({
+        type: "info",
+        text: `Added ${product.code}, but ${code} wasn't saved as an alias.`,
+      });
+    }
+  };
+
   const toggleSelect = (p: ApiProduct) => {
     setSelected((prev) => {
       const exists = prev.find((s) => s.id === p.id);
@@ -123,7 +265,9 @@ export default function ProductSheetApp() {
         ...prev,
         {
           ...p,
+          productId: p.id,
           areaName: p.area?.name || "Other",
+          pricedAt: p.prices?.[0]?.effectiveAt ?? null,
           quantity: "",
           notes: "",
         },
@@ -141,6 +285,203 @@ export default function ProductSheetApp() {
     );
   };
 
+  const loadSavedSelections = useCallback(async () => {
+    try {
+      const resp = await fetch(SELECTIONS_API, { cache: "no-store" });
+      const data = await resp.json();
+      setSavedSelections(data.selections || []);
+    } catch {
+      setSavedSelections([]);
+    }
+  }, []);
+
+  const applySelection = useCallback((selection: Selection) => {
+    setSelectionId(selection.id);
+    setAddress(selection.address);
+    setDate(selection.date || new Date().toISOString().split("T")[0]);
+    setContactName(selection.contactName || "");
+    setCompany(selection.company || "");
+    setPhoneNumber(selection.phoneNumber || "");
+    setEmail(selection.email || "");
+    setSelected(
+      selection.items.map((item) => ({
+        id: item.productId ?? item.id,
+        productId: item.productId,
+        code: item.code,
+        areaName: item.areaName,
+        description: item.description,
+        manufacturerDescription: item.manufacturerDescription,
+        productDetails: item.productDetails,
+        price: item.price !== null ? Number(item.price) : null,
+        imageUrl: item.imageUrl || "",
+        pricedAt: item.pricedAt,
+        quantity: item.quantity,
+        notes: item.notes,
+        approvalStatus: item.approvalStatus,
+        clientComment: item.clientComment,
+      }))
+    );
+    setRevisions(selection.revisions);
+    setClientReview({
+      shareToken: selection.shareToken,
+      signedOffAt: selection.signedOffAt,
+      signedOffBy: selection.signedOffBy,
+      signature: selection.signature,
+      clientNote: selection.clientNote,
+    });
+    window.history.replaceState(null, "", `?id=${selection.id}`);
+  }, []);
+
+  const openSelection = useCallback(
+    async (id: string) => {
+      try {
+        const resp = await fetch(`${SELECTIONS_API}/${id}`, { cache: "no-store" });
+        const data = await resp.json();
+        if (!resp.ok) throw new Error(data?.error || "Failed to open selection");
+        applySelection(data.selection);
+      } catch (err) {
+        setMessage({
+          type: "error",
+          text: err instanceof Error ? err.message : "Failed to open selection",
+        });
+      }
+    },
+    [applySelection]
+  );
+
+  useEffect(() => {
+    loadSavedSelections();
+    if (initialSelectionId) openSelection(initialSelectionId);
+  }, [initialSelectionId, loadSavedSelections, openSelection]);
+
+  const saveSelection = async (): Promise<string | null> => {
+    if (!address.trim()) {
+      setMessage({ type: "error", text: "Address is required" });
+      return null;
+    }
+
+    setSavingSelection(true);
+    try {
+      const resp = await fetch(
+        selectionId ? `${SELECTIONS_API}/${selectionId}` : SELECTIONS_API,
+        {
+          method: selectionId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            address: address.trim(),
+            date,
+            contactName: contactName.trim(),
+            company: company.trim(),
+            phoneNumber: phoneNumber.trim(),
+            email: email.trim(),
+            items: selected.map((p) => ({
+              productId: p.productId,
+              code: p.code,
+              areaName: p.areaName,
+              description: p.description,
+              manufacturerDescription: p.manufacturerDescription,
+              productDetails: p.productDetails,
+              price: p.price,
+              pricedAt: p.pricedAt,
+              imageUrl: p.imageUrl,
+              quantity: p.quantity,
+              notes: p.notes,
+            })),
+          }),
+        }
+      );
+      const data = await resp.json();
+      if (!resp.ok) throw new Error(data?.error || "Failed to save selection");
+
+      setSelectionId(data.selection.id);
+      setRevisions(data.selection.revisions);
+      window.history.replaceState(null, "", `?id=${data.selection.id}`);
+      loadSavedSelections();
+      return data.selection.id as string;
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to save selection",
+      });
+      return null;
+    } finally {
+      setSavingSelection(false);
+    }
+  };
+
+  const duplicateSelection = async (id: string) => {
+    try {
+      const resp = await fetch(`${SELECTIONS_API}/${id}/duplicate`, {
+        method: "POST",
+      });
+      const data = await resp.json();
+      if (!resp.ok) throw new Error(data?.error || "Failed to duplicate selection");
+      applySelection(data.selection);
+      loadSavedSelections();
+      setMessage({ type: "success", text: "Selection duplicated. Update the address for the new job." });
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to duplicate selection",
+      });
+    }
+  };
+
+  const shareSelection = async () => {
+    const id = selectionId ?? (await saveSelection());
+    if (!id) return;
+    try {
+      const resp = await fetch(`${SELECTIONS_API}/${id}/share`, { method: "POST" });
+      const data = await resp.json();
+      if (!resp.ok) throw new Error(data?.error || "Failed to create link");
+      setClientReview((prev) => ({
+        shareToken: data.shareToken,
+        signedOffAt: prev?.signedOffAt ?? null,
+        signedOffBy: prev?.signedOffBy ?? null,
+        signature: prev?.signature ?? null,
+        clientNote: prev?.clientNote ?? null,
+      }));
+      await navigator.clipboard?.writeText(data.url).catch(() => undefined);
+      setMessage({ type: "success", text: `Approval link copied: ${data.url}` });
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to create link",
+      });
+    }
+  };
+
+  const revokeShareLink = async () => {
+    if (!selectionId) return;
+    try {
+      const resp = await fetch(`${SELECTIONS_API}/${selectionId}/share`, {
+        method: "DELETE",
+      });
+      if (!resp.ok) throw new Error("Failed to revoke link");
+      setClientReview((prev) => (prev ? { ...prev, shareToken: null } : prev));
+      setMessage({ type: "info", text: "Approval link revoked." });
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to revoke link",
+      });
+    }
+  };
+
+  const startNewSelection = () => {
+    setSelectionId(null);
+    setRevisions([]);
+    setClientReview(null);
+    setAddress("");
+    setDate(new Date().toISOString().split("T")[0]);
+    setContactName("");
+    setCompany("");
+    setPhoneNumber("");
+    setEmail("");
+    setSelected([]);
+    window.history.replaceState(null, "", window.location.pathname);
+  };
+
   // PDF Upload Handler
   const handlePdfUpload = useCallback(
     async (file: File) => {
@@ -156,6 +497,7 @@ export default function ProductSheetApp() {
       try {
         const formData = new FormData();
         formData.append("pdf", file);
+        if (pdfSupplier) formData.append("supplier", pdfSupplier);
 
         const res = await fetch(`${API_BASE}/parse-pdf`, {
           method: "POST",
@@ -169,12 +511,32 @@ export default function ProductSheetApp() {
           return;
         }
 
+        const ocrNote = data.ocr
+          ? " Scanned pages were read with OCR, so check the codes."
+          : "";
+
+        const suggestions: CodeSuggestion[] = data.suggestions || [];
+        const supplier = data.supplierId === "generic" ? "" : data.supplier || "";
+
         if (!data.products || data.products.length === 0) {
+          if (suggestions.length > 0) {
+            setPdfParseInfo({
+              found: 0,
+              notFound: data.notFoundCodes || [],
+              suggestions,
+              supplier,
+            });
+            setMessage({
+              type: "info",
+              text: `No exact matches in the ${data.supplier} PDF. Confirm the suggested matches below.${ocrNote}`,
+            });
+            return;
+          }
           setMessage({
             type: "info",
-            text: data.notFoundCodes?.length
-              ? `No matching products found. Codes in PDF: ${data.extractedCodes?.join(", ") || "none"}`
-              : "No product codes found in the PDF.",
+            text: (data.notFoundCodes?.length
+              ? `No matching products found. Codes in PDF: ${data.extractedCodes?.join(", ") || "none"}.`
+              : "No product codes found in the PDF.") + ocrNote,
           });
           return;
         }
@@ -187,15 +549,17 @@ export default function ProductSheetApp() {
         setPdfParseInfo({
           found: data.products.length,
           notFound: data.notFoundCodes || [],
+          suggestions,
+          supplier,
         });
 
         setMessage({
           type: "success",
-          text: `Added ${data.products.length} products from PDF${
+          text: `Added ${data.products.length} products from ${data.supplier} PDF${
             data.notFoundCodes?.length
               ? `. ${data.notFoundCodes.length} codes not found.`
-              : ""
-          }`,
+              : "."
+          }${ocrNote}`,
         });
       } catch (err) {
         console.error("PDF parse error:", err);
@@ -204,9 +568,16 @@ export default function ProductSheetApp() {
         setParsingPdf(false);
       }
     },
-    [addProductToSelected]
+    [addProductToSelected, pdfSupplier]
   );
 
+  useEffect(() => {
+    fetch("/api/admin/suppliers", { credentials: "include" })
+      .then((res) => res.json())
+      .then((data) => setSuppliers(data.suppliers || []))
+      .catch(() => setSuppliers([]));
+  }, []);
+
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -263,9 +634,10 @@ export default function ProductSheetApp() {
       notes: p.notes,
       image: null,
       imageUrl: p.imageUrl,
+      pricedAt: p.pricedAt,
     }));
 
-  const generateDocument = async () => {
+  const generateDocument = async (format: "docx" | "pdf" = "docx") => {
     const error = validate();
     if (error) {
       setMessage({ type: "error", text: error });
@@ -276,8 +648,18 @@ export default function ProductSheetApp() {
     setMessage(null);
 
     try {
+      // Save first so the generated document is recorded as a revision. A
+      // signed-off selection can't change, so its current state is used as is.
+      // Viewers can't save or record revisions; they just get the document.
+      const savedId = !canEdit
+        ? null
+        : clientReview?.signedOffAt
+          ? selectionId
+          : await saveSelection();
+      if (canEdit && !savedId) return;
+
       const payloadProducts = buildPayloadProducts();
-      const resp = await fetch(`${API_BASE}/generate`, {
+      const resp = await fetch(`${API_BASE}/generate?format=${format}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
@@ -289,6 +671,8 @@ export default function ProductSheetApp() {
           phoneNumber: phoneNumber.trim(),
           email: email.trim(),
           products: payloadProducts,
+          includePriceDates,
+          selectionId: savedId,
         }),
       });
 
@@ -301,15 +685,20 @@ export default function ProductSheetApp() {
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `Product_Selection_${address.replace(/\s+/g, "_")}_${date}.docx`;
+      a.download = `Product_Selection_${address.replace(/\s+/g, "_")}_${date}.${format}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
+      const revision = resp.headers.get("X-Selection-Revision");
+      if (revision && savedId) openSelection(savedId);
+
       setMessage({
         type: "success",
-        text: "Document generated and downloaded.",
+        text: revision
+          ? `Document generated and saved as revision ${revision}.`
+          : "Document generated and downloaded.",
       });
     } catch (err) {
       setMessage({
@@ -321,6 +710,51 @@ export default function ProductSheetApp() {
     }
   };
 
+  const exportSpreadsheet = async (format: "csv" | "xlsx") => {
+    const error = validate();
+    if (error) {
+      setMessage({ type: "error", text: error });
+      return;
+    }
+
+    setGenerating(true);
+    setMessage(null);
+
+    try {
+      const resp = await fetch(`${API_BASE}/export?format=${format}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          address: address.trim(),
+          products: buildPayloadProducts(),
+        }),
+      });
+
+      if (!resp.ok) {
+        const err = await resp.json().catch(() => ({}));
+        throw new Error(err.error || err.details || "Failed to export");
+      }
+
+      const blob = await resp.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Product_Selection_${address.replace(/\s+/g, "_")}_${date}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Failed to export",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
   return (
     <>
       <div className="container">
@@ -356,12 +790,154 @@ export default function ProductSheetApp() {
           </div>
         )}
 
-        {/* PDF Upload Zone - BWA Only */}
         <div className="card">
-          <h2 className="card-title">📄 Import from BWA PDF</h2>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="card-title" style={{ margin: 0 }}>
+              💾 Saved selections
+            </h2>
+            <div className="flex gap-2">
+              <button className="btn-secondary btn-sm" onClick={startNewSelection}>
+                New selection
+              </button>
+              {canEdit && (
+                <button
+                  className="btn-primary btn-sm"
+                  onClick={async () => {
+                    const id = await saveSelection();
+                    if (id) setMessage({ type: "success", text: "Selection saved." });
+                  }}
+                  disabled={savingSelection || Boolean(clientReview?.signedOffAt)}
+                  title={
+                    clientReview?.signedOffAt
+                      ? "Signed off by the client; duplicate it to make changes"
+                      : undefined
+                  }
+                >
+                  {savingSelection ? "Saving..." : selectionId ? "Save changes" : "Save selection"}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {savedSelections.length === 0 ? (
+            <p className="text-sm text-gray-600">No saved selections yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {savedSelections.map((s) => (
+                <div
+                  key={s.id}
+                  className="flex items-center justify-between border border-slate-200 rounded px-3 py-2 text-sm"
+                  style={s.id === selectionId ? { borderColor: "#00f0ff" } : undefined}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold text-slate-800">{s.address}</div>
+                    <div className="text-xs text-gray-600">
+                      {s._count.items} items · {s._count.revisions} revisions · updated{" "}
+                      {new Date(s.updatedAt).toLocaleDateString("en-AU")}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {s.signedOffAt
+                        ? `Signed off ${new Date(s.signedOffAt).toLocaleDateString("en-AU")}`
+                        : `Client: ${s.approval.approved} approved · ${s.approval.rejected} rejected · ${s.approval.pending} pending`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button className="btn-secondary btn-sm" onClick={() => openSelection(s.id)}>
+                      Open
+                    </button>
+                    {canEdit && (
+                      <button
+                        className="btn-secondary btn-sm"
+                        onClick={() => duplicateSelection(s.id)}
+                      >
+                        Duplicate
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selectionId && (
+            <div className="mt-4">
+              <div className="flex justify-between items-center mb-3">
+                <p className="text-sm font-medium">Client approval</p>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <button className="btn-secondary btn-sm" onClick={shareSelection}>
+                      {clientReview?.shareToken ? "Copy approval link" : "Create approval link"}
+                    </button>
+                    {clientReview?.shareToken && (
+                      <button className="btn-danger btn-sm" onClick={revokeShareLink}>
+                        Revoke link
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              {clientReview?.signedOffAt ? (
+                <div className="text-sm">
+                  <p>
+                    Signed off by {clientReview.signedOffBy} on{" "}
+                    {new Date(clientReview.signedOffAt).toLocaleString("en-AU")}
+                  </p>
+                  {clientReview.clientNote && (
+                    <p className="text-xs text-gray-600">Note: {clientReview.clientNote}</p>
+                  )}
+                  {clientReview.signature && (
+                    <img
+                      src={clientReview.signature}
+                      alt={`Signature of ${clientReview.signedOffBy}`}
+                      style={{ maxHeight: 80, marginTop: "0.5rem" }}
+                    />
+                  )}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-600">Not signed off yet.</p>
+              )}
+            </div>
+          )}
+
+          {selectionId && revisions.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm font-medium mb-3">Generated revisions</p>
+              <ul className="summary-list text-sm">
+                {revisions.map((r) => (
+                  <li key={r.id}>
+                    <a
+                      href={`${SELECTIONS_API}/${selectionId}/revisions/${r.number}`}
+                      className="underline"
+                    >
+                      Revision {r.number}
+                    </a>{" "}
+                    <span className="text-xs text-gray-600">
+                      {new Date(r.createdAt).toLocaleString("en-AU")} by {r.createdBy}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* PDF Upload Zone */}
+        <div className="card">
+          <h2 className="card-title">📄 Import from Supplier PDF</h2>
           <p className="text-sm text-gray-600 mb-3">
-            Upload a BWA quote/order PDF to automatically select matching products from your database.
+            Upload a supplier quote/order PDF to automatically select matching products from your database.
           </p>
+          <div className="field mb-3">
+            <label>Supplier</label>
+            <select value={pdfSupplier} onChange={(e) => setPdfSupplier(e.target.value)}>
+              <option value="">Detect from PDF</option>
+              {suppliers.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
           <div
             onDrop={handleDrop}
             onDragOver={handleDragOver}
@@ -393,12 +969,12 @@ export default function ProductSheetApp() {
                   ? "Extracting products..."
                   : isDragging
                   ? "Drop PDF here"
-                  : "Upload BWA PDF"}
+                  : "Upload supplier PDF"}
               </p>
               <p className="pdf-subtitle">
                 {parsingPdf
                   ? "Matching product codes with database..."
-                  : "Drag and drop a BWA PDF, or click to browse"}
+                  : "Drag and drop a quote/order PDF, or click to browse"}
               </p>
             </div>
           </div>
@@ -411,6 +987,42 @@ export default function ProductSheetApp() {
               <p className="text-xs text-amber-600">
                 {pdfParseInfo.notFound.join(", ")}
               </p>
+              {pdfParseInfo.suggestions.length > 0 && (
+                <div className="suggestions">
+                  <p className="text-sm font-medium text-amber-700 mb-1">
+                    Possible matches — click one to add it:
+                  </p>
+                  {canEdit && (
+                    <label className="remember-matches">
+                      <input
+                        type="checkbox"
+                        checked={rememberMatches}
+                        onChange={(e) => setRememberMatches(e.target.checked)}
+                      />
+                      Remember confirmed matches as{" "}
+                      {pdfParseInfo.supplier ? `${pdfParseInfo.supplier} ` : ""}code aliases
+                    </label>
+                  )}
+                  {pdfParseInfo.suggestions.map((s) => (
+                    <div key={s.code} className="suggestion-row">
+                      <span className="suggestion-code">{s.code}</span>
+                      <div className="suggestion-candidates">
+                        {s.candidates.map((c) => (
+                          <button
+                            key={c.product.id}
+                            type="button"
+                            className="btn-secondary btn-sm"
+                            title={c.reason}
+                            onClick={() => confirmSuggestion(s.code, c.product)}
+                          >
+                            {c.product.code} · {c.product.description} ({Math.round(c.score * 100)}%)
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -496,13 +1108,13 @@ export default function ProductSheetApp() {
             <p className="text-sm text-gray-500">No products found.</p>
           )}
 
-          {Object.keys(productsByArea).map((area) => (
-            <div key={area} className="product-card">
+          {productsByArea.map(({ area, items }) => (
+            <div key={area.id} className="product-card">
               <div className="product-header">
-                <span className="product-title">{area}</span>
+                <span className="product-title">{area.displayLabel || area.name}</span>
               </div>
               <div className="grid grid-cols-1 gap-2">
-                {productsByArea[area].map((product) => {
+                {items.map((product) => {
                   const isSelected = selected.some((s) => s.id === product.id);
                   return (
                     <div
@@ -562,6 +1174,16 @@ export default function ProductSheetApp() {
                   <div className="text-slate-600 flex-1 min-w-[180px] truncate">
                     {item.description}
                   </div>
+                  {item.approvalStatus && item.approvalStatus !== "pending" && (
+                    <div
+                      className="text-xs"
+                      style={{ color: item.approvalStatus === "approved" ? "#155724" : "#721c24" }}
+                      title={item.clientComment || undefined}
+                    >
+                      Client {item.approvalStatus}
+                      {item.clientComment ? ` — “${item.clientComment}”` : ""}
+                    </div>
+                  )}
                   <input
                     className="w-24 rounded border border-slate-300 px-2 py-1"
                     placeholder="Qty"
@@ -586,15 +1208,48 @@ export default function ProductSheetApp() {
           </div>
         )}
 
-        <div className="flex justify-end gap-2">
+        <div className="flex justify-end items-center gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includePriceDates}
+              onChange={(e) => setIncludePriceDates(e.target.checked)}
+              style={{ width: "auto" }}
+            />
+            Show "priced as of" dates
+          </label>
           <button
             className="btn-primary"
-            onClick={generateDocument}
+            onClick={() => generateDocument("docx")}
             disabled={generating}
             style={{ padding: "0.75rem 2rem", fontSize: "1rem" }}
           >
             {generating ? "⏳ Generating..." : "📥 Generate Document"}
           </button>
+          <button
+            className="btn-secondary"
+            onClick={() => generateDocument("pdf")}
+            disabled={generating}
+            style={{ padding: "0.75rem 2rem", fontSize: "1rem" }}
+          >
+            📄 Download PDF
+          </button>
+          <button
+            className="btn-secondary"
+            onClick={() => exportSpreadsheet("xlsx")}
+            disabled={generating}
+            style={{ padding: "0.75rem 2rem", fontSize: "1rem" }}
+          >
+            📊 Export Excel
+          </button>
+          <button
+            className="btn-secondary"
+            onClick={() => exportSpreadsheet("csv")}
+            disabled={generating}
+            style={{ padding: "0.75rem 2rem", fontSize: "1rem" }}
+          >
+            Export CSV
+          </button>
         </div>
       </div>
 
@@ -738,6 +1393,40 @@ export default function ProductSheetApp() {
           border-radius: 8px;
         }
 
+        .suggestions {
+          margin-top: 0.75rem;
+        }
+
+        .remember-matches {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.75rem;
+          color: #92400e;
+          margin-bottom: 0.5rem;
+        }
+
+        .suggestion-row {
+          display: flex;
+          align-items: flex-start;
+          gap: 0.75rem;
+          padding: 0.375rem 0;
+        }
+
+        .suggestion-code {
+          min-width: 7rem;
+          font-size: 0.8rem;
+          font-weight: 600;
+          color: #92400e;
+          padding-top: 0.25rem;
+        }
+
+        .suggestion-candidates {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.375rem;
+        }
+
         .grid {
           display: grid;
           grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
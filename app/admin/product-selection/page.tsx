@@ -1,8 +1,18 @@
 import { requireAdmin } from "@/lib/auth";
+import { hasRole } from "@/lib/users";
 import ProductSheetApp from "./ProductSheetApp";
 
-export default async function ProductSelectionPage() {
-  await requireAdmin();
-  return <ProductSheetApp />;
+export default async function ProductSelectionPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ id?: string }>;
+}) {
+  const session = await requireAdmin();
+  const { id } = await searchParams;
+  return (
+    <ProductSheetApp
+      initialSelectionId={id}
+      canEdit={hasRole(session.role, "estimator")}
+    />
+  );
 }
-
@@ -0,0 +1,45 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { requireAdmin } from "@/lib/auth";
+import { listActiveSessions, toSessionRow } from "@/lib/sessions";
+import { hasRole } from "@/lib/users";
+import SessionsTable from "./sessions-table";
+
+export const revalidate = 0;
+
+export default async function SessionsPage() {
+  const session = await requireAdmin();
+  const owner = hasRole(session.role, "owner");
+
+  const sessions = await listActiveSessions(owner ? undefined : session.userId);
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-500">Admin</p>
+            <h1 className="text-2xl font-semibold text-slate-900">
+              Active sessions
+            </h1>
+            <p className="text-sm text-slate-500">
+              {owner
+                ? "Everyone currently signed in."
+                : "Where you are currently signed in."}{" "}
+              Sessions end after 12 hours without use, and after 7 days at most.
+            </p>
+          </div>
+          <Link href="/admin/account">
+            <Button variant="outline">Back to Account</Button>
+          </Link>
+        </div>
+
+        <SessionsTable
+          showUser={owner}
+          sessions={sessions.map((s) => toSessionRow(s, session.sid))}
+        />
+      </div>
+    </main>
+  );
+}
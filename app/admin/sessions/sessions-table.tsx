@@ -0,0 +1,145 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+
+export type SessionRow = {
+  id: string;
+  username: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  current: boolean;
+};
+
+function formatTime(iso: string) {
+  return iso.slice(0, 16).replace("T", " ");
+}
+
+export default function SessionsTable({
+  sessions,
+  showUser,
+}: {
+  sessions: SessionRow[];
+  showUser: boolean;
+}) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [signingOut, setSigningOut] = useState(false);
+
+  const revoke = async (s: SessionRow) => {
+    if (s.current && !window.confirm("This is your current session. Sign out here?")) {
+      return;
+    }
+
+    setBusyId(s.id);
+    try {
+      const res = await fetch(`/api/admin/sessions/${s.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to revoke session");
+        return;
+      }
+      if (data.current) {
+        router.push("/admin");
+      } else {
+        toast.success("Session signed out");
+      }
+      router.refresh();
+    } catch {
+      toast.error("Failed to revoke session");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const signOutEverywhere = async () => {
+    if (!window.confirm("Sign out of every session of yours, including this one?")) {
+      return;
+    }
+
+    setSigningOut(true);
+    try {
+      const res = await fetch("/api/admin/logout?everywhere=1", { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data?.error || "Failed to sign out");
+        return;
+      }
+      router.push("/admin");
+      router.refresh();
+    } catch {
+      toast.error("Failed to sign out");
+    } finally {
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <>
+      <Toaster />
+      <div className="flex justify-end">
+        <Button variant="destructive" onClick={signOutEverywhere} disabled={signingOut}>
+          {signingOut ? "Signing out..." : "Sign out everywhere"}
+        </Button>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-slate-50 text-left text-xs uppercase text-slate-500">
+              {showUser && <th className="p-3">User</th>}
+              <th className="p-3">Device</th>
+              <th className="p-3">IP</th>
+              <th className="p-3">Signed in</th>
+              <th className="p-3">Last seen</th>
+              <th className="p-3">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.length === 0 && (
+              <tr>
+                <td colSpan={showUser ? 6 : 5} className="p-3 text-slate-500">
+                  No active sessions.
+                </td>
+              </tr>
+            )}
+            {sessions.map((s) => (
+              <tr key={s.id} className="border-t border-slate-100">
+                {showUser && <td className="p-3 font-semibold">{s.username}</td>}
+                <td className="p-3 max-w-xs">
+                  <div className="truncate text-slate-700" title={s.userAgent ?? ""}>
+                    {s.userAgent || "Unknown"}
+                  </div>
+                  {s.current && (
+                    <span className="rounded bg-emerald-100 px-1.5 py-0.5 text-xs font-medium text-emerald-700">
+                      This session
+                    </span>
+                  )}
+                </td>
+                <td className="p-3 text-xs text-slate-500">{s.ip || "—"}</td>
+                <td className="p-3 text-xs text-slate-500">{formatTime(s.createdAt)}</td>
+                <td className="p-3 text-xs text-slate-500">{formatTime(s.lastSeenAt)}</td>
+                <td className="p-3">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => revoke(s)}
+                    disabled={busyId === s.id}
+                  >
+                    Sign out
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,50 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { prisma } from "@/lib/prisma";
+import { hashUserToken } from "@/lib/users";
+import SetPasswordForm from "./set-password-form";
+
+export const revalidate = 0;
+
+/** Landing page for invite and reset links; public, the token is checked here. */
+export default async function SetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const user = token
+    ? await prisma.user.findUnique({
+        where: { tokenHash: hashUserToken(token) },
+        select: { username: true, active: true, tokenPurpose: true, tokenExpiresAt: true },
+      })
+    : null;
+  const valid =
+    user && user.active && user.tokenExpiresAt && user.tokenExpiresAt > new Date();
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <div className="max-w-md mx-auto bg-white shadow-lg border border-slate-200 rounded-lg p-6 space-y-4">
+        {valid && token ? (
+          <SetPasswordForm
+            token={token}
+            username={user.username}
+            invite={user.tokenPurpose === "invite"}
+          />
+        ) : (
+          <>
+            <h1 className="text-xl font-semibold text-slate-900">Link expired</h1>
+            <p className="text-sm text-slate-500">
+              This invite or reset link is invalid or has already been used.
+              Ask an owner to send you a new one.
+            </p>
+            <Link href="/admin">
+              <Button variant="outline">Back to Admin</Button>
+            </Link>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
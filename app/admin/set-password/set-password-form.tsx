@@ -0,0 +1,198 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+
+type Props = {
+  token: string;
+  username: string;
+  invite: boolean;
+};
+
+const MIN_PASSWORD_LENGTH = 10;
+
+export default function SetPasswordForm({ token, username, invite }: Props) {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Set once the password is saved for a user with two-factor on.
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || "Failed to set password.");
+        return;
+      }
+
+      if (data.twoFactor) {
+        setChallenge(data.challenge);
+        setPassword("");
+        setConfirmation("");
+        return;
+      }
+
+      router.push("/admin");
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/admin/login/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challenge, code }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        // The password is already set and the link used up, so an expired
+        // challenge means signing in normally.
+        if (data.expired) {
+          router.push("/admin");
+          return;
+        }
+        setError(data.error || "Invalid code.");
+        setCode("");
+        return;
+      }
+
+      router.push("/admin");
+      router.refresh();
+    } catch {
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass =
+    "w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+  if (challenge) {
+    return (
+      <>
+        <div className="space-y-1">
+          <h1 className="text-xl font-semibold text-slate-900">Two-factor sign-in</h1>
+          <p className="text-sm text-slate-500">
+            Your password is saved. Enter the 6-digit code from your
+            authenticator app, or one of your recovery codes, to sign in.
+          </p>
+        </div>
+
+        <form onSubmit={handleVerify} className="space-y-4">
+          <input
+            type="text"
+            inputMode="numeric"
+            className={`${inputClass} tracking-widest`}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Checking..." : "Verify"}
+          </Button>
+        </form>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-1">
+        <h1 className="text-xl font-semibold text-slate-900">
+          {invite ? "Welcome" : "Reset password"}
+        </h1>
+        <p className="text-sm text-slate-500">
+          {invite
+            ? `Choose a password for ${username} to finish setting up your account.`
+            : `Choose a new password for ${username}.`}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input type="hidden" autoComplete="username" value={username} readOnly />
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-slate-700">
+            New password
+          </label>
+          <input
+            type="password"
+            className={inputClass}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+            required
+          />
+        </div>
+
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-slate-700">
+            Confirm password
+          </label>
+          <input
+            type="password"
+            className={inputClass}
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="new-password"
+            required
+          />
+        </div>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <Button type="submit" className="w-full" disabled={loading}>
+          {loading ? "Saving..." : "Set password and sign in"}
+        </Button>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { requireAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { publicUserSelect, toPublicUser } from "@/lib/users";
+import UsersTable from "./users-table";
+
+export const revalidate = 0;
+
+export default async function UsersPage() {
+  const session = await requireAdmin("owner");
+
+  const users = await prisma.user.findMany({
+    orderBy: { username: "asc" },
+    select: publicUserSelect,
+  });
+
+  return (
+    <main className="min-h-screen bg-slate-50 py-16 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-slate-500">Admin</p>
+            <h1 className="text-2xl font-semibold text-slate-900">Users</h1>
+            <p className="text-sm text-slate-500">
+              Viewers can search products and generate documents. Estimators
+              can also edit the catalog, areas and selections. Owners can also
+              manage users.
+            </p>
+          </div>
+          <Link href="/admin">
+            <Button variant="outline">Back to Admin</Button>
+          </Link>
+        </div>
+
+        <UsersTable
+          currentUserId={session.userId}
+          users={users.map((user) => {
+            const { createdAt, lastLoginAt, tokenExpiresAt, ...rest } = toPublicUser(user);
+            return {
+              ...rest,
+              createdAt: createdAt.toISOString(),
+              lastLoginAt: lastLoginAt?.toISOString() ?? null,
+              tokenExpiresAt: tokenExpiresAt?.toISOString() ?? null,
+            };
+          })}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { FormEvent, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+
+const ROLES = ["viewer", "estimator", "owner"] as const;
+
+export type UserRow = {
+  id: string;
+  createdAt: string;
+  username: string;
+  email: string | null;
+  role: string;
+  active: boolean;
+  lastLoginAt: string | null;
+  tokenPurpose: string | null;
+  tokenExpiresAt: string | null;
+  hasPassword: boolean;
+  twoFactor: boolean;
+};
+
+type IssuedLink = { username: string; purpose: string; url: string };
+
+const inputClass =
+  "rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+function status(user: UserRow) {
+  if (!user.active) return "Deactivated";
+  if (!user.hasPassword) return "Invited";
+  if (user.tokenPurpose === "reset") return "Reset pending";
+  return "Active";
+}
+
+export default function UsersTable({
+  users,
+  currentUserId,
+}: {
+  users: UserRow[];
+  currentUserId: string;
+}) {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<string>("viewer");
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [issued, setIssued] = useState<IssuedLink | null>(null);
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), email: email.trim(), role }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to invite user");
+        return;
+      }
+      toast.success(`${data.user.username} invited`);
+      setIssued({ username: data.user.username, purpose: "invite", url: data.url });
+      setUsername("");
+      setEmail("");
+      setRole("viewer");
+      router.refresh();
+    } catch {
+      toast.error("Failed to invite user");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateUser = async (
+    user: UserRow,
+    body: { role?: string; active?: boolean; twoFactor?: false }
+  ) => {
+    setBusyId(user.id);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to update user");
+        return;
+      }
+      toast.success(`${user.username} updated`);
+      router.refresh();
+    } catch {
+      toast.error("Failed to update user");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const issueReset = async (user: UserRow) => {
+    setBusyId(user.id);
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/reset`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to create link");
+        return;
+      }
+      setIssued({
+        username: user.username,
+        purpose: data.user.tokenPurpose,
+        url: data.url,
+      });
+      router.refresh();
+    } catch {
+      toast.error("Failed to create link");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Copy failed; select the link and copy it manually");
+    }
+  };
+
+  return (
+    <>
+      <Toaster />
+      <form
+        onSubmit={handleInvite}
+        className="bg-white border border-slate-200 rounded-lg shadow-sm p-4 flex flex-wrap gap-3"
+      >
+        <input
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+          placeholder="Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <input
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+          type="email"
+          placeholder="Email (optional)"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <select className={inputClass} value={role} onChange={(e) => setRole(e.target.value)}>
+          {ROLES.map((r) => (
+            <option key={r} value={r}>
+              {r}
+            </option>
+          ))}
+        </select>
+        <Button type="submit" disabled={loading || !username.trim()}>
+          {loading ? "Inviting..." : "Invite"}
+        </Button>
+      </form>
+
+      {issued && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-2 text-sm">
+          <p className="text-slate-700">
+            {issued.purpose === "invite" ? "Invite" : "Password reset"} link for{" "}
+            <strong>{issued.username}</strong>. Send it to them; it works once.
+          </p>
+          <div className="flex gap-2">
+            <input className={`${inputClass} flex-1 bg-white`} value={issued.url} readOnly />
+            <Button type="button" variant="outline" onClick={copyLink}>
+              Copy
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setIssued(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-slate-50 text-left text-xs uppercase text-slate-500">
+              <th className="p-3">User</th>
+              <th className="p-3">Role</th>
+              <th className="p-3">Status</th>
+              <th className="p-3">Last sign-in</th>
+              <th className="p-3">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => {
+              const busy = busyId === user.id;
+              return (
+                <tr
+                  key={user.id}
+                  className={`border-t border-slate-100 ${user.active ? "" : "opacity-60"}`}
+                >
+                  <td className="p-3">
+                    <div className="font-semibold">
+                      {user.username}
+                      {user.id === currentUserId && (
+                        <span className="ml-2 text-xs font-normal text-slate-500">(you)</span>
+                      )}
+                    </div>
+                    {user.email && <div className="text-xs text-slate-500">{user.email}</div>}
+                  </td>
+                  <td className="p-3">
+                    <select
+                      className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+                      value={user.role}
+                      disabled={busy}
+                      onChange={(e) => updateUser(user, { role: e.target.value })}
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {r}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-3">
+                    {status(user)}
+                    {user.twoFactor && (
+                      <span className="ml-2 rounded bg-emerald-100 px-1.5 py-0.5 text-xs font-medium text-emerald-700">
+                        2FA
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-3 text-xs text-slate-500">
+                    {user.lastLoginAt ? user.lastLoginAt.slice(0, 16).replace("T", " ") : "—"}
+                  </td>
+                  <td className="p-3">
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => issueReset(user)}
+                        disabled={busy || !user.active}
+                      >
+                        {user.hasPassword ? "Reset link" : "New invite link"}
+                      </Button>
+                      {user.twoFactor && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            if (
+                              window.confirm(
+                                `Turn off two-factor sign-in for ${user.username}? They can set it up again from their account page.`
+                              )
+                            ) {
+                              updateUser(user, { twoFactor: false });
+                            }
+                          }}
+                          disabled={busy}
+                        >
+                          Reset 2FA
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant={user.active ? "destructive" : "outline"}
+                        onClick={() => updateUser(user, { active: !user.active })}
+                        disabled={busy}
+                      >
+                        {user.active ? "Deactivate" : "Reactivate"}
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
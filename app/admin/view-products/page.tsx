@@ -1,8 +1,7 @@
-import Image from "next/image";
-
 import { Button } from "@/components/ui/button";
 import { requireAdmin } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import ProductsTable from "./products-table";
 
 export const revalidate = 0;
 
@@ -12,7 +11,10 @@ export default async function ViewProductsPage() {
   const products = await prisma.product.findMany({
     orderBy: { createdAt: "desc" },
     take: 100,
-    include: { area: true },
+    include: {
+      area: true,
+      aliases: { orderBy: [{ supplier: "asc" }, { code: "asc" }] },
+    },
   });
 
   return (
@@ -25,7 +27,7 @@ export default async function ViewProductsPage() {
               View Products
             </h1>
             <p className="text-sm text-slate-500">
-              Latest 100 products stored in the system.
+              Latest 100 products stored in the system. Edit inline, manage supplier code aliases, archive discontinued items or delete mistakes.
             </p>
           </div>
           <Button asChild variant="outline">
@@ -33,63 +35,26 @@ export default async function ViewProductsPage() {
           </Button>
         </div>
 
-        <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
-          <table className="min-w-full text-sm">
-            <thead>
-              <tr className="bg-slate-50 text-left text-xs uppercase text-slate-500">
-                <th className="p-3">Code</th>
-                <th className="p-3">Code</th>
-                <th className="p-3">Image</th>
-                <th className="p-3">Description</th>
-                <th className="p-3">Manufacturer</th>
-                <th className="p-3">Product Details</th>
-                <th className="p-3">Area</th>
-                <th className="p-3">Price</th>
-                <th className="p-3">Created</th>
-              </tr>
-            </thead>
-            <tbody>
-              {products.map((p: typeof products[number]) => (
-                <tr key={p.id} className="border-t border-slate-100">
-                  <td className="p-3 font-semibold">{p.code}</td>
-                  <td className="p-3">
-                    {p.imageUrl ? (
-                      <img
-                        src={p.imageUrl}
-                        alt={p.description}
-                        className="h-14 w-20 object-cover rounded border border-slate-200"
-                      />
-                    ) : (
-                      <div className="h-14 w-20 bg-slate-100 border border-slate-200 rounded" />
-                    )}
-                  </td>
-                  <td className="p-3">{p.description}</td>
-                  <td className="p-3">
-                    {p.manufacturerDescription || "—"}
-                  </td>
-                  <td className="p-3">{p.productDetails || "—"}</td>
-                  <td className="p-3">{p.area?.name || "—"}</td>
-                  <td className="p-3">
-                    {p.price !== null ? `$${p.price?.toString()}` : "—"}
-                  </td>
-                  <td className="p-3 text-xs text-slate-500">
-                    {p.createdAt.toISOString().slice(0, 10)}
-                  </td>
-                </tr>
-              ))}
-              {products.length === 0 && (
-                <tr>
-                  <td
-                    colSpan={9}
-                    className="p-4 text-sm text-slate-500 text-center"
-                  >
-                    No products found.
-                  </td>
-                </tr>
-              )}
-            </tbody>
-          </table>
-        </div>
+        <ProductsTable
+          products={products.map((p: typeof products[number]) => ({
+            id: p.id,
+            code: p.code,
+            areaId: p.areaId,
+            areaName: p.area?.name || "",
+            description: p.description,
+            manufacturerDescription: p.manufacturerDescription || "",
+            productDetails: p.productDetails || "",
+            price: p.price !== null ? p.price.toString() : "",
+            imageUrl: p.imageUrl,
+            archived: p.archived,
+            createdAt: p.createdAt.toISOString(),
+            aliases: p.aliases.map((a) => ({
+              id: a.id,
+              supplier: a.supplier,
+              code: a.code,
+            })),
+          }))}
+        />
       </div>
     </main>
   );
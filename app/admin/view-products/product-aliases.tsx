@@ -0,0 +1,142 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+
+export type Alias = { id: string; supplier: string; code: string };
+
+const inputClass =
+  "rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+export default function ProductAliases({
+  productId,
+  aliases,
+}: {
+  productId: string;
+  aliases: Alias[];
+}) {
+  const router = useRouter();
+  const [supplier, setSupplier] = useState("");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [suppliers, setSuppliers] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetch("/api/admin/suppliers")
+      .then((res) => res.json())
+      .then((data) =>
+        setSuppliers(
+          (data.suppliers || [])
+            .filter((s: { id: string }) => s.id !== "generic")
+            .map((s: { name: string }) => s.name)
+        )
+      )
+      .catch(() => setSuppliers([]));
+  }, []);
+
+  const addAlias = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/products/${productId}/aliases`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ supplier: supplier.trim(), code: code.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to add alias");
+        return;
+      }
+      toast.success(`Alias ${data.alias.code} added`);
+      setCode("");
+      router.refresh();
+    } catch {
+      toast.error("Network error while adding alias.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeAlias = async (alias: Alias) => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/products/${productId}/aliases/${alias.id}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to remove alias");
+        return;
+      }
+      toast.success(`Alias ${alias.code} removed`);
+      router.refresh();
+    } catch {
+      toast.error("Network error while removing alias.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        Other codes for this product. Searches, supplier PDFs and imports
+        using these codes find this product. Leave the supplier blank for
+        one of our own codes.
+      </p>
+      {aliases.length > 0 ? (
+        <ul className="flex flex-wrap gap-2">
+          {aliases.map((a) => (
+            <li
+              key={a.id}
+              className="flex items-center gap-2 rounded border border-slate-200 bg-white px-2 py-1 text-xs"
+            >
+              <span className="text-slate-500">{a.supplier || "Ours"}</span>
+              <span className="font-semibold text-slate-800">{a.code}</span>
+              <button
+                type="button"
+                className="text-red-600 hover:text-red-800"
+                onClick={() => removeAlias(a)}
+                disabled={busy}
+                aria-label={`Remove alias ${a.code}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-400">No aliases yet.</p>
+      )}
+      <form onSubmit={addAlias} className="flex flex-wrap items-center gap-2">
+        <input
+          className={inputClass}
+          list={`alias-suppliers-${productId}`}
+          placeholder="Supplier (optional)"
+          value={supplier}
+          onChange={(e) => setSupplier(e.target.value)}
+        />
+        <datalist id={`alias-suppliers-${productId}`}>
+          {suppliers.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <input
+          className={inputClass}
+          placeholder="Code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+        />
+        <Button type="submit" size="sm" disabled={busy || !code.trim()}>
+          Add alias
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,450 @@
+"use client";
+
+import imageCompression from "browser-image-compression";
+import { useRouter } from "next/navigation";
+import { Fragment, useEffect, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+import { imageVariantUrl } from "@/lib/image-variants";
+import ProductAliases, { type Alias } from "./product-aliases";
+
+type Area = { id: string; name: string };
+
+export type ProductRow = {
+  id: string;
+  code: string;
+  areaId: string;
+  areaName: string;
+  description: string;
+  manufacturerDescription: string;
+  productDetails: string;
+  price: string;
+  imageUrl: string;
+  archived: boolean;
+  createdAt: string;
+  aliases: Alias[];
+};
+
+type Draft = Omit<
+  ProductRow,
+  "areaName" | "imageUrl" | "archived" | "createdAt" | "aliases"
+> & {
+  imageFile: File | null;
+  imagePreview: string | null;
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+export default function ProductsTable({ products }: { products: ProductRow[] }) {
+  const router = useRouter();
+  const [areas, setAreas] = useState<Area[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [exportArea, setExportArea] = useState("");
+  const [aliasesFor, setAliasesFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAreas = async () => {
+      try {
+        const res = await fetch("/api/admin/areas", { cache: "no-store" });
+        const data = await res.json();
+        setAreas(data.areas || []);
+      } catch {
+        toast.error("Failed to load areas");
+      }
+    };
+    loadAreas();
+  }, []);
+
+  const exportUrl = (format: "csv" | "xlsx") => {
+    const params = new URLSearchParams({ format });
+    if (exportArea) params.set("area", exportArea);
+    if (showArchived) params.set("includeArchived", "1");
+    return `/api/admin/products/export?${params}`;
+  };
+
+  const visible = showArchived ? products : products.filter((p) => !p.archived);
+
+  const startEdit = (p: ProductRow) => {
+    setDraft({
+      id: p.id,
+      code: p.code,
+      areaId: p.areaId,
+      description: p.description,
+      manufacturerDescription: p.manufacturerDescription,
+      productDetails: p.productDetails,
+      price: p.price,
+      imageFile: null,
+      imagePreview: null,
+    });
+  };
+
+  const updateDraft = (updates: Partial<Draft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    if (!draft.code.trim()) {
+      toast.error("Product code is required.");
+      return;
+    }
+    if (!draft.description.trim()) {
+      toast.error("Description is required.");
+      return;
+    }
+
+    setBusyId(draft.id);
+    try {
+      const formData = new FormData();
+      formData.append("code", draft.code.trim());
+      formData.append("areaId", draft.areaId);
+      formData.append("description", draft.description.trim());
+      formData.append(
+        "manufacturerDescription",
+        draft.manufacturerDescription.trim()
+      );
+      formData.append("productDetails", draft.productDetails.trim());
+      formData.append("price", draft.price.trim());
+
+      if (draft.imageFile) {
+        const compressedFile = await imageCompression(draft.imageFile, {
+          maxSizeMB: 1,
+          maxWidthOrHeight: 1920,
+          useWebWorker: true,
+        });
+        formData.append("image", compressedFile);
+      }
+
+      const res = await fetch(`/api/admin/products/${draft.id}`, {
+        method: "PUT",
+        body: formData,
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to update product");
+        return;
+      }
+
+      toast.success("Product updated");
+      setDraft(null);
+      router.refresh();
+    } catch {
+      toast.error("Network error while saving product.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const setArchived = async (p: ProductRow, archived: boolean) => {
+    setBusyId(p.id);
+    try {
+      const res = await fetch(`/api/admin/products/${p.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to update product");
+        return;
+      }
+
+      toast.success(archived ? `${p.code} archived` : `${p.code} restored`);
+      router.refresh();
+    } catch {
+      toast.error("Network error while updating product.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteProduct = async (p: ProductRow) => {
+    if (
+      !window.confirm(
+        `Delete ${p.code} permanently? Archive it instead to keep it out of searches.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(p.id);
+    try {
+      const res = await fetch(`/api/admin/products/${p.id}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to delete product");
+        return;
+      }
+
+      toast.success(`${p.code} deleted`);
+      router.refresh();
+    } catch {
+      toast.error("Network error while deleting product.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <Toaster />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived products
+        </label>
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+            value={exportArea}
+            onChange={(e) => setExportArea(e.target.value)}
+          >
+            <option value="">All areas</option>
+            {areas.map((a) => (
+              <option key={a.id} value={a.name}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+          <Button asChild size="sm" variant="outline">
+            <a href={exportUrl("xlsx")}>Export Excel</a>
+          </Button>
+          <Button asChild size="sm" variant="outline">
+            <a href={exportUrl("csv")}>Export CSV</a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="bg-slate-50 text-left text-xs uppercase text-slate-500">
+              <th className="p-3">Code</th>
+              <th className="p-3">Image</th>
+              <th className="p-3">Description</th>
+              <th className="p-3">Manufacturer</th>
+              <th className="p-3">Product Details</th>
+              <th className="p-3">Area</th>
+              <th className="p-3">Price</th>
+              <th className="p-3">Created</th>
+              <th className="p-3">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((p) => {
+              const editing = draft?.id === p.id;
+              const busy = busyId === p.id;
+
+              if (editing && draft) {
+                return (
+                  <tr key={p.id} className="border-t border-slate-100 align-top bg-amber-50/40">
+                    <td className="p-3">
+                      <input
+                        className={inputClass}
+                        value={draft.code}
+                        onChange={(e) =>
+                          updateDraft({ code: e.target.value.toUpperCase() })
+                        }
+                      />
+                    </td>
+                    <td className="p-3 space-y-2">
+                      <img
+                        src={draft.imagePreview || imageVariantUrl(p.imageUrl, "thumb")}
+                        alt={p.description}
+                        className="h-14 w-20 object-cover rounded border border-slate-200"
+                      />
+                      <input
+                        type="file"
+                        accept="image/*"
+                        className="w-40 text-xs"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0] ?? null;
+                          updateDraft({
+                            imageFile: file,
+                            imagePreview: file ? URL.createObjectURL(file) : null,
+                          });
+                        }}
+                      />
+                    </td>
+                    <td className="p-3">
+                      <textarea
+                        className={inputClass}
+                        rows={2}
+                        value={draft.description}
+                        onChange={(e) => updateDraft({ description: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-3">
+                      <textarea
+                        className={inputClass}
+                        rows={2}
+                        value={draft.manufacturerDescription}
+                        onChange={(e) =>
+                          updateDraft({ manufacturerDescription: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td className="p-3">
+                      <textarea
+                        className={inputClass}
+                        rows={2}
+                        value={draft.productDetails}
+                        onChange={(e) =>
+                          updateDraft({ productDetails: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td className="p-3">
+                      <select
+                        className={`${inputClass} bg-white`}
+                        value={draft.areaId}
+                        onChange={(e) => updateDraft({ areaId: e.target.value })}
+                      >
+                        {areas.map((a) => (
+                          <option key={a.id} value={a.id}>
+                            {a.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-3">
+                      <input
+                        className={`${inputClass} w-24`}
+                        inputMode="decimal"
+                        value={draft.price}
+                        onChange={(e) =>
+                          updateDraft({ price: e.target.value.replace(/[^\d.]/g, "") })
+                        }
+                      />
+                    </td>
+                    <td className="p-3 text-xs text-slate-500">
+                      {p.createdAt.slice(0, 10)}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={saveDraft} disabled={busy}>
+                          {busy ? "Saving..." : "Save"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDraft(null)}
+                          disabled={busy}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              }
+
+              return (
+                <Fragment key={p.id}>
+                  <tr
+                    className={`border-t border-slate-100 ${p.archived ? "opacity-60" : ""}`}
+                  >
+                    <td className="p-3 font-semibold">
+                      {p.code}
+                      {p.archived && (
+                        <span className="ml-2 rounded bg-slate-200 px-1.5 py-0.5 text-xs font-medium text-slate-600">
+                          Archived
+                        </span>
+                      )}
+                      {p.aliases.length > 0 && (
+                        <div className="mt-1 text-xs font-normal text-slate-500">
+                          aka {p.aliases.map((a) => a.code).join(", ")}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      {p.imageUrl ? (
+                        <img
+                          src={imageVariantUrl(p.imageUrl, "thumb")}
+                          alt={p.description}
+                          className="h-14 w-20 object-cover rounded border border-slate-200"
+                        />
+                      ) : (
+                        <div className="h-14 w-20 bg-slate-100 border border-slate-200 rounded" />
+                      )}
+                    </td>
+                    <td className="p-3">{p.description}</td>
+                    <td className="p-3">{p.manufacturerDescription || "—"}</td>
+                    <td className="p-3">{p.productDetails || "—"}</td>
+                    <td className="p-3">{p.areaName || "—"}</td>
+                    <td className="p-3">{p.price ? `$${p.price}` : "—"}</td>
+                    <td className="p-3 text-xs text-slate-500">
+                      {p.createdAt.slice(0, 10)}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => startEdit(p)}
+                          disabled={busy || draft !== null}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setAliasesFor(aliasesFor === p.id ? null : p.id)}
+                        >
+                          Aliases
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setArchived(p, !p.archived)}
+                          disabled={busy}
+                        >
+                          {p.archived ? "Restore" : "Archive"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => deleteProduct(p)}
+                          disabled={busy}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                  {aliasesFor === p.id && (
+                    <tr className="bg-slate-50">
+                      <td colSpan={9} className="p-3">
+                        <ProductAliases productId={p.id} aliases={p.aliases} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={9} className="p-4 text-sm text-slate-500 text-center">
+                  No products found.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
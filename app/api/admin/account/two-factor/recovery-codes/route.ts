@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  startLoginAttempt,
+  tooManyAttempts,
+} from "@/lib/login-throttle";
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+import { verifyTotp } from "@/lib/totp";
+import { generateRecoveryCodes } from "@/lib/two-factor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Replace all recovery codes with a fresh set, confirmed by a current
+ * authenticator code. The old codes stop working.
+ */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const ip = clientIp(req);
+
+  try {
+    // Counted with sign-in failures, so a stolen session can't guess codes.
+    const throttle = await startLoginAttempt(ip, session.username);
+    if (throttle.limited) {
+      return tooManyAttempts(throttle, ip, session.username);
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: session.userId },
+      select: { totpSecret: true, totpLastCounter: true },
+    });
+    if (!user.totpSecret) {
+      await releaseLoginAttempt(ip, session.username);
+      return NextResponse.json(
+        { error: "Two-factor sign-in is off" },
+        { status: 400 }
+      );
+    }
+
+    const counter = verifyTotp(user.totpSecret, body?.code?.toString() ?? "", {
+      lastCounter: user.totpLastCounter,
+    });
+    if (counter === null) {
+      recordLoginFailure(ip, session.username, "wrong code renewing recovery codes");
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+    await recordLoginSuccess(ip, session.username);
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: session.userId },
+      data: { totpLastCounter: counter, recoveryCodes: hashes },
+    });
+
+    return NextResponse.json({ recoveryCodes: codes });
+  } catch (error: any) {
+    console.error("Error regenerating recovery codes:", error);
+    return NextResponse.json(
+      { error: "Failed to create recovery codes", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
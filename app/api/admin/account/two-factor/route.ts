@@ -0,0 +1,181 @@
+import { NextResponse } from "next/server";
+import QRCode from "qrcode";
+
+import { requireApiRole } from "@/lib/auth";
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+  startLoginAttempt,
+  tooManyAttempts,
+} from "@/lib/login-throttle";
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+import { generateTotpSecret, totpUri, verifyTotp } from "@/lib/totp";
+import {
+  TOTP_ISSUER,
+  disabledTwoFactor,
+  generateRecoveryCodes,
+} from "@/lib/two-factor";
+import { verifyPassword } from "@/lib/users";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Whether the signed-in user has two-factor on, and how many recovery codes are left. */
+export async function GET() {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  try {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: session.userId },
+      select: { totpSecret: true, recoveryCodes: true },
+    });
+    return NextResponse.json({
+      enabled: user.totpSecret !== null,
+      recoveryCodesLeft: user.recoveryCodes.length,
+    });
+  } catch (error: any) {
+    console.error("Error fetching two-factor status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch two-factor status", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start enrolment: a new secret, as text and as a QR code for an
+ * authenticator app. Nothing changes at sign-in until PUT confirms a code.
+ */
+export async function POST() {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  try {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: session.userId },
+      select: { totpSecret: true },
+    });
+    if (user.totpSecret) {
+      return NextResponse.json(
+        { error: "Two-factor sign-in is already on" },
+        { status: 409 }
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: session.userId },
+      data: { totpPendingSecret: secret },
+    });
+
+    const uri = totpUri(secret, session.username, TOTP_ISSUER);
+    const qrCode = await QRCode.toDataURL(uri, { margin: 1, width: 220 });
+    return NextResponse.json({ secret, uri, qrCode });
+  } catch (error: any) {
+    console.error("Error starting two-factor enrolment:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/** Confirm enrolment with a code from the app; returns the recovery codes once. */
+export async function PUT(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: session.userId },
+      select: { totpPendingSecret: true },
+    });
+    if (!user.totpPendingSecret) {
+      return NextResponse.json(
+        { error: "Start two-factor setup first" },
+        { status: 400 }
+      );
+    }
+
+    const counter = verifyTotp(user.totpPendingSecret, body?.code?.toString() ?? "");
+    if (counter === null) {
+      return NextResponse.json(
+        { error: "That code doesn't match. Check the time on your phone and try again." },
+        { status: 400 }
+      );
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: session.userId },
+      data: {
+        totpSecret: user.totpPendingSecret,
+        totpPendingSecret: null,
+        totpLastCounter: counter,
+        recoveryCodes: hashes,
+      },
+    });
+
+    return NextResponse.json({ enabled: true, recoveryCodes: codes });
+  } catch (error: any) {
+    console.error("Error confirming two-factor enrolment:", error);
+    return NextResponse.json(
+      { error: "Failed to turn on two-factor sign-in", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/** Turn two-factor off. Needs the current password. */
+export async function DELETE(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const ip = clientIp(req);
+
+  try {
+    // Counted with sign-in failures, so a stolen session can't guess the password.
+    const throttle = await startLoginAttempt(ip, session.username);
+    if (throttle.limited) {
+      return tooManyAttempts(throttle, ip, session.username);
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: session.userId },
+      select: { passwordHash: true },
+    });
+    if (!(await verifyPassword(body?.password?.toString() ?? "", user.passwordHash))) {
+      recordLoginFailure(ip, session.username, "wrong password turning off two-factor");
+      return NextResponse.json({ error: "Wrong password" }, { status: 403 });
+    }
+    await recordLoginSuccess(ip, session.username);
+
+    await prisma.user.update({
+      where: { id: session.userId },
+      data: disabledTwoFactor,
+    });
+    return NextResponse.json({ enabled: false });
+  } catch (error: any) {
+    console.error("Error disabling two-factor:", error);
+    return NextResponse.json(
+      { error: "Failed to turn off two-factor sign-in", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Move every product of this area into `targetId`, then delete this area. */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const targetId = body?.targetId?.toString();
+  if (!targetId) {
+    return NextResponse.json(
+      { error: "Choose an area to merge into" },
+      { status: 400 }
+    );
+  }
+  if (targetId === id) {
+    return NextResponse.json(
+      { error: "An area can't be merged into itself" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [source, target] = await Promise.all([
+      prisma.area.findUnique({ where: { id } }),
+      prisma.area.findUnique({ where: { id: targetId } }),
+    ]);
+    if (!source || !target) {
+      return NextResponse.json({ error: "Area not found" }, { status: 404 });
+    }
+
+    const moved = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.product.updateMany({
+        where: { areaId: source.id },
+        data: { areaId: target.id },
+      });
+      await tx.area.delete({ where: { id: source.id } });
+      return count;
+    });
+
+    await recordAudit(session, req, {
+      action: "area.merge",
+      entity: "area",
+      entityId: target.id,
+      summary: `${source.name} → ${target.name} (${moved} products)`,
+      before: source,
+      after: { ...target, moved },
+    });
+
+    return NextResponse.json({ area: target, moved });
+  } catch (error: any) {
+    console.error("Error merging areas:", error);
+    return NextResponse.json(
+      { error: "Failed to merge areas", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
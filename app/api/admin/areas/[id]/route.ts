@@ -0,0 +1,80 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Rename an area or change its display label or active flag. Saved
+ * selections keep the name they were saved with; set a display label to
+ * change how an area reads in documents without renaming it.
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const data: Prisma.AreaUpdateInput = {};
+
+  if (body?.name !== undefined) {
+    const name = body.name?.toString().trim();
+    if (!name) {
+      return NextResponse.json(
+        { error: "Area name is required" },
+        { status: 400 }
+      );
+    }
+    data.name = name;
+  }
+  if (body?.displayLabel !== undefined) {
+    data.displayLabel = body.displayLabel?.toString().trim() || null;
+  }
+  if (body?.active !== undefined) {
+    data.active = Boolean(body.active);
+  }
+
+  try {
+    const before = await prisma.area.findUnique({ where: { id } });
+    const area = await prisma.area.update({ where: { id }, data });
+    await recordAudit(session, req, {
+      action: "area.update",
+      entity: "area",
+      entityId: id,
+      summary: area.name,
+      before,
+      after: area,
+    });
+    return NextResponse.json({ area });
+  } catch (error: any) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === "P2025") {
+        return NextResponse.json({ error: "Area not found" }, { status: 404 });
+      }
+      if (error.code === "P2002") {
+        return NextResponse.json(
+          { error: "Area already exists" },
+          { status: 409 }
+        );
+      }
+    }
+    console.error("Error updating area:", error);
+    return NextResponse.json(
+      { error: "Failed to update area", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
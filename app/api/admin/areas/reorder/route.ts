@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Persist a new order: `ids` lists every area, first to last. */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const ids = body?.ids;
+  if (
+    !Array.isArray(ids) ||
+    ids.some((id) => typeof id !== "string") ||
+    new Set(ids).size !== ids.length
+  ) {
+    return NextResponse.json(
+      { error: "ids must be a list of distinct area ids" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const previous = await prisma.area.findMany({
+      orderBy: { sortOrder: "asc" },
+      select: { id: true, name: true },
+    });
+    // Ids are already distinct, so equal size plus every id known means the
+    // list is exactly the current set of areas.
+    const known = new Set(previous.map((a) => a.id));
+    if (
+      ids.length !== known.size ||
+      ids.some((id: string) => !known.has(id))
+    ) {
+      return NextResponse.json(
+        { error: "The order must list every area exactly once" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      ids.map((id: string, sortOrder: number) =>
+        prisma.area.update({ where: { id }, data: { sortOrder } })
+      )
+    );
+
+    const names = new Map(previous.map((a) => [a.id, a.name]));
+    await recordAudit(session, req, {
+      action: "area.reorder",
+      entity: "area",
+      before: previous.map((a) => a.name),
+      after: ids.map((id: string) => names.get(id) ?? id),
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    console.error("Error reordering areas:", error);
+    return NextResponse.json(
+      { error: "Failed to reorder areas", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,24 @@
 import { NextResponse } from "next/server";
 
-import { getSessionFromCookies } from "@/lib/auth";
+import { areaOrderBy } from "@/lib/areas";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+/** Areas in document order. `?active=1` leaves out retired areas for pickers. */
+export async function GET(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const activeOnly = new URL(req.url).searchParams.get("active") === "1";
+
   try {
     const areas = await prisma.area.findMany({
-      orderBy: { name: "asc" },
+      where: activeOnly ? { active: true } : {},
+      orderBy: areaOrderBy,
     });
     return NextResponse.json({ areas });
   } catch (error: any) {
@@ -22,10 +31,8 @@ export async function GET() {
 }
 
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
 
   let body: any;
   try {
@@ -51,7 +58,20 @@ export async function POST(req: Request) {
       );
     }
 
-    const area = await prisma.area.create({ data: { name } });
+    const last = await prisma.area.findFirst({
+      orderBy: { sortOrder: "desc" },
+      select: { sortOrder: true },
+    });
+    const area = await prisma.area.create({
+      data: { name, sortOrder: (last?.sortOrder ?? -1) + 1 },
+    });
+    await recordAudit(session, req, {
+      action: "area.create",
+      entity: "area",
+      entityId: area.id,
+      summary: area.name,
+      after: area,
+    });
     return NextResponse.json({ area });
   } catch (error: any) {
     console.error("Error creating area:", error);
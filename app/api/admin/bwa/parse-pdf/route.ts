@@ -1,144 +1,72 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { matchImagesToRows, readImagePngs } from "@/lib/pdf-images";
+import { readPdfLayout, type PdfLayout } from "@/lib/pdf-layout";
+import {
+  classifySupplierRows,
+  isAcceptedLine,
+  resolveSupplier,
+  type ClassifiedLine,
+} from "@/lib/supplier-parsers";
 import { NextResponse } from "next/server";
-import pdfParse from "pdf-parse";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type ParsedProduct = {
-  code: string;
-  manufacturerDescription: string;
-  price: string;
-  imageUrl: string;
-  notes: string;
-};
-
 /**
- * Parse BWA (Builder Warehouse Australia) PDF format
- * Expected format from BWA order/quote PDFs:
- * - Product codes typically follow patterns like "BWA-XXXX" or alphanumeric codes
- * - Prices in AUD format
- * - Product names/descriptions
+ * Decode the thumbnail printed beside each product line to a base64 PNG,
+ * keyed by line index. Nothing is uploaded here: the save route stores the
+ * images of the rows actually imported, so re-parsing a PDF leaves nothing
+ * behind in storage. Returns the images and how many could not be decoded.
  */
-function parseBWAProducts(text: string): ParsedProduct[] {
-  const products: ParsedProduct[] = [];
-  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
-
-  // Common patterns in BWA PDFs:
-  // 1. Lines with product code, description, quantity, unit price
-  // 2. Product codes often start with letters followed by numbers
-  // Pattern: CODE | DESCRIPTION | QTY | UNIT PRICE | TOTAL
-
-  // Regular expression for extracting product lines
-  // Match: Product code (alphanumeric, possibly with dashes), description, and price
-  const productLineRegex = /^([A-Z0-9][A-Z0-9\-_\.\/]{2,30})\s+(.+?)\s+\$?([\d,]+\.?\d{0,2})\s*$/i;
-  
-  // Alternative pattern: Code at start, price at end (with various separators)
-  const altProductRegex = /^([A-Z][A-Z0-9\-_]{2,20})\s+(.{10,}?)\s+(\d+)\s+\$?([\d,]+\.?\d{2})/i;
-
-  // Table-like pattern: splits by multiple spaces or tabs
-  const tableRowRegex = /^([A-Z0-9][A-Z0-9\-_\.\/]{2,30})\s{2,}(.+?)\s{2,}(\d+(?:\.\d+)?)\s{2,}\$?([\d,]+\.?\d{0,2})/i;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    
-    // Skip header lines and totals
-    if (
-      line.toLowerCase().includes("product code") ||
-      line.toLowerCase().includes("description") ||
-      line.toLowerCase().includes("subtotal") ||
-      line.toLowerCase().includes("total") ||
-      line.toLowerCase().includes("gst") ||
-      line.toLowerCase().includes("tax") ||
-      line.toLowerCase().includes("shipping") ||
-      line.toLowerCase().includes("freight") ||
-      line.toLowerCase().includes("page ")
-    ) {
-      continue;
-    }
-
-    // Try table row pattern first
-    let match = line.match(tableRowRegex);
-    if (match) {
-      products.push({
-        code: match[1].trim().toUpperCase(),
-        manufacturerDescription: match[2].trim(),
-        price: match[4].replace(/,/g, ""),
-        imageUrl: "",
-        notes: "",
-      });
-      continue;
-    }
-
-    // Try alternative pattern
-    match = line.match(altProductRegex);
-    if (match) {
-      products.push({
-        code: match[1].trim().toUpperCase(),
-        manufacturerDescription: match[2].trim(),
-        price: match[4].replace(/,/g, ""),
-        imageUrl: "",
-        notes: `Qty: ${match[3]}`,
-      });
-      continue;
-    }
-
-    // Try basic pattern
-    match = line.match(productLineRegex);
-    if (match) {
-      products.push({
-        code: match[1].trim().toUpperCase(),
-        manufacturerDescription: match[2].trim(),
-        price: match[3].replace(/,/g, ""),
-        imageUrl: "",
-        notes: "",
-      });
-      continue;
-    }
-
-    // More flexible parsing: look for lines that look like product entries
-    // Split by multiple spaces and check structure
-    const parts = line.split(/\s{2,}/).filter(Boolean);
-    if (parts.length >= 3) {
-      const potentialCode = parts[0];
-      const potentialPrice = parts[parts.length - 1];
-      
-      // Check if first part looks like a product code (starts with letter, has numbers)
-      const looksLikeCode = /^[A-Z][A-Z0-9\-_]{2,}/i.test(potentialCode);
-      // Check if last part looks like a price
-      const looksLikePrice = /^\$?\d[\d,]*\.?\d{0,2}$/.test(potentialPrice.replace(/\s/g, ""));
-      
-      if (looksLikeCode && looksLikePrice) {
-        const description = parts.slice(1, -1).join(" ");
-        products.push({
-          code: potentialCode.trim().toUpperCase(),
-          manufacturerDescription: description.trim(),
-          price: potentialPrice.replace(/[$,\s]/g, ""),
-          imageUrl: "",
-          notes: "",
-        });
-      }
+async function readLineImages(
+  buffer: Buffer,
+  layout: PdfLayout,
+  lines: ClassifiedLine[]
+) {
+  const images = new Map<number, string>();
+  const products = lines.filter(isAcceptedLine);
+  const matches = matchImagesToRows(
+    layout.images,
+    layout.rows,
+    products.map((line) => line.index)
+  );
+  if (matches.size === 0) return { images, failures: 0 };
+
+  const pngs = await readImagePngs(buffer, Array.from(matches.values()));
+  let failures = 0;
+
+  for (const line of products) {
+    const image = matches.get(line.index);
+    if (!image) continue;
+    const png = pngs.get(image);
+    if (png) {
+      images.set(line.index, png.toString("base64"));
+    } else {
+      failures++;
     }
   }
 
-  // Deduplicate by code
-  const seen = new Set<string>();
-  return products.filter((p) => {
-    if (seen.has(p.code)) return false;
-    seen.add(p.code);
-    return true;
-  });
+  return { images, failures };
 }
 
+/**
+ * Extract product lines from a supplier quote or order PDF. The optional
+ * `supplier` form field names a profile; without it the supplier is detected
+ * from the text, falling back to the generic layout. `lines` has every source
+ * row classified, so skipped and low-confidence rows can be reviewed and
+ * fixed by hand. Product
+ * thumbnails embedded in the PDF come back as base64 PNG in each product's
+ * `image`, for the save route to upload.
+ */
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
 
   try {
     const formData = await req.formData();
     const file = formData.get("pdf") as File | null;
+    const requested = formData.get("supplier")?.toString() || null;
 
     if (!file) {
       return NextResponse.json({ error: "No PDF file provided" }, { status: 400 });
@@ -151,16 +79,47 @@ export async function POST(req: Request) {
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
-    const pdfData = await pdfParse(buffer);
-    const extractedText = pdfData.text;
-
-    const products = parseBWAProducts(extractedText);
+    const layout = await readPdfLayout(buffer);
+
+    const { profile, detected, scores } = resolveSupplier(layout.text, requested);
+    const lines = classifySupplierRows(layout.rows, profile);
+    const { images, failures: imageFailures } = await readLineImages(buffer, layout, lines);
+    // Low-confidence lines stay in `lines` for review instead.
+    const products = lines
+      .filter(isAcceptedLine)
+      .map((line) => ({ ...line.product!, image: images.get(line.index) }));
+
+    await recordAudit(session, req, {
+      action: "pdf.import",
+      entity: "pdf",
+      summary: `${file.name}: ${products.length} products (${profile.name})`,
+      after: {
+        fileName: file.name,
+        size: file.size,
+        supplier: profile.name,
+        detected,
+        codes: products.map((product) => product.code),
+        imageFailures,
+      },
+    });
 
     return NextResponse.json({
       success: true,
+      supplier: profile.name,
+      supplierId: profile.id,
+      detected,
+      candidates: scores.map(({ profile: p, score }) => ({
+        id: p.id,
+        name: p.name,
+        score,
+      })),
       products,
-      rawText: extractedText.substring(0, 2000), // First 2000 chars for debugging
-      pageCount: pdfData.numpages,
+      lines,
+      imageFailures,
+      pageCount: layout.pageCount,
+      // Scanned pages were read with OCR; their codes and prices need a check.
+      ocr: layout.ocrPages.length > 0,
+      ocrPages: layout.ocrPages,
     });
   } catch (error: unknown) {
     console.error("Error parsing PDF:", error);
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { MAX_IMPORT_ROWS, guessMapping } from "@/lib/catalog-import";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Read an uploaded CSV or XLSX and return its header, rows and a suggested
+ * column mapping. Nothing is stored; the page maps and validates from here.
+ */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  let file: File | null;
+  try {
+    const formData = await req.formData();
+    file = formData.get("file") as File | null;
+  } catch {
+    return NextResponse.json({ error: "Invalid form data" }, { status: 400 });
+  }
+
+  if (!file || typeof file.arrayBuffer !== "function") {
+    return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+  }
+
+  const name = file.name.toLowerCase();
+  if (!name.endsWith(".csv") && !name.endsWith(".xlsx")) {
+    return NextResponse.json(
+      { error: "Upload a .csv or .xlsx file" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const table = await readSpreadsheet(Buffer.from(await file.arrayBuffer()), name);
+
+    if (table.headers.length === 0) {
+      return NextResponse.json({ error: "The file is empty" }, { status: 400 });
+    }
+    if (table.rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Files are limited to ${MAX_IMPORT_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      fileName: file.name,
+      headers: table.headers,
+      rows: table.rows,
+      mapping: guessMapping(table.headers),
+    });
+  } catch (error: any) {
+    console.error("Error reading spreadsheet:", error);
+    return NextResponse.json(
+      { error: "Failed to read spreadsheet", details: error?.message },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,225 @@
+import type { Product } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  parseImportPrice,
+  reviewImportRows,
+  type ImportRow,
+} from "@/lib/catalog-import";
+import { copyRemoteImage, imageKeyBase } from "@/lib/images";
+import {
+  PRICE_SOURCES,
+  parsePriceTier,
+  priceChanged,
+  recordPrice,
+} from "@/lib/pricing";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PLACEHOLDER_IMAGE = "https://placehold.co/600x600?text=No+Image";
+
+function toImportRow(raw: any): ImportRow {
+  const row = {} as ImportRow;
+  for (const { key } of IMPORT_FIELDS) {
+    row[key] = raw?.[key]?.toString().trim() || "";
+  }
+  return row;
+}
+
+/**
+ * Import mapped spreadsheet rows into the catalog.
+ *
+ * With `dryRun: true` each row is validated and reported as new or update.
+ * Otherwise the import is refused while any row has errors; remote images
+ * are copied into storage and all products are written in one transaction.
+ * Blank cells leave the stored value alone on update.
+ */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  let payload: any;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!Array.isArray(payload?.rows) || payload.rows.length === 0) {
+    return NextResponse.json(
+      { error: "At least one row is required" },
+      { status: 400 }
+    );
+  }
+  if (payload.rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { error: `Imports are limited to ${MAX_IMPORT_ROWS} rows` },
+      { status: 400 }
+    );
+  }
+
+  const dryRun = payload.dryRun === true;
+  const supplier = payload.supplier?.toString().trim() || null;
+  const priceTier = parsePriceTier(payload.priceTier);
+  const rows = (payload.rows as unknown[]).map(toImportRow);
+
+  let existingByCode: Map<string, Pick<Product, "id" | "code" | "price">>;
+  let areaIds: Map<string, string>;
+  try {
+    const [existing, areas] = await Promise.all([
+      prisma.product.findMany({
+        where: { code: { in: rows.map((row) => row.code).filter(Boolean) } },
+        select: { id: true, code: true, price: true },
+      }),
+      prisma.area.findMany({ select: { id: true, name: true } }),
+    ]);
+    existingByCode = new Map(existing.map((p) => [p.code, p]));
+    areaIds = new Map(areas.map((a) => [a.name.toLowerCase(), a.id]));
+  } catch (error: any) {
+    console.error("Error loading catalog for import:", error);
+    return NextResponse.json(
+      { error: "Failed to load catalog", details: error?.message },
+      { status: 500 }
+    );
+  }
+
+  const review = reviewImportRows(
+    rows,
+    new Set(existingByCode.keys()),
+    new Set(areaIds.keys())
+  );
+
+  if (dryRun) {
+    return NextResponse.json({ dryRun: true, rows: review });
+  }
+
+  const invalid = review.filter((r) => r.errors.length > 0);
+  if (invalid.length > 0) {
+    return NextResponse.json(
+      {
+        error: `${invalid.length} row${invalid.length === 1 ? " has" : "s have"} errors; fix them before importing.`,
+        rows: review,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Images are copied before the transaction opens. A failed download
+  // doesn't block the import: new products get the placeholder and existing
+  // ones keep their current image.
+  const imageUrls = new Map<number, string>();
+  const imageFailures: { index: number; code: string; error: string }[] = [];
+  for (const [index, row] of rows.entries()) {
+    if (!row.imageUrl) continue;
+    try {
+      imageUrls.set(
+        index,
+        await copyRemoteImage(row.imageUrl, imageKeyBase("products", row.code))
+      );
+    } catch (error: any) {
+      imageFailures.push({ index, code: row.code, error: error?.message || "Download failed" });
+    }
+  }
+
+  const created: Product[] = [];
+  const updated: Product[] = [];
+
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        for (const [index, row] of rows.entries()) {
+          let areaId: string | undefined;
+          if (row.area) {
+            areaId = areaIds.get(row.area.toLowerCase());
+            if (!areaId) {
+              areaId = (await tx.area.create({ data: { name: row.area } })).id;
+              areaIds.set(row.area.toLowerCase(), areaId);
+            }
+          }
+
+          const price = parseImportPrice(row.price);
+          const imageUrl = imageUrls.get(index);
+          const existing = existingByCode.get(row.code);
+
+          if (existing) {
+            const product = await tx.product.update({
+              where: { id: existing.id },
+              data: {
+                ...(areaId ? { areaId } : {}),
+                ...(row.description ? { description: row.description } : {}),
+                ...(row.manufacturerDescription
+                  ? { manufacturerDescription: row.manufacturerDescription }
+                  : {}),
+                ...(row.productDetails ? { productDetails: row.productDetails } : {}),
+                ...(price !== null ? { price } : {}),
+                ...(imageUrl ? { imageUrl } : {}),
+              },
+            });
+
+            if (priceChanged(existing.price, price)) {
+              await recordPrice(tx, existing.id, {
+                source: PRICE_SOURCES.spreadsheetImport,
+                supplier,
+                tier: priceTier,
+                price: price!,
+              });
+            }
+            updated.push(product);
+            continue;
+          }
+
+          const product = await tx.product.create({
+            data: {
+              code: row.code,
+              areaId: areaId!,
+              description: row.description || row.manufacturerDescription,
+              manufacturerDescription: row.manufacturerDescription || null,
+              productDetails: row.productDetails || null,
+              price,
+              imageUrl: imageUrl || PLACEHOLDER_IMAGE,
+            },
+          });
+
+          if (price !== null) {
+            await recordPrice(tx, product.id, {
+              source: PRICE_SOURCES.spreadsheetImport,
+              supplier,
+              tier: priceTier,
+              price,
+            });
+          }
+          created.push(product);
+        }
+      },
+      { timeout: 120_000 }
+    );
+  } catch (error: any) {
+    console.error("Error importing products:", error);
+    return NextResponse.json(
+      { error: "Failed to import products", details: error?.message },
+      { status: 500 }
+    );
+  }
+
+  await recordAudit(session, req, {
+    action: "product.import",
+    entity: "product",
+    summary: `${created.length} created, ${updated.length} updated from a spreadsheet (${
+      supplier ?? PRICE_SOURCES.spreadsheetImport
+    })`,
+    before: updated.map((product) => existingByCode.get(product.code)),
+    after: [...created, ...updated],
+  });
+
+  return NextResponse.json({
+    created: created.length,
+    updated: updated.length,
+    imageFailures,
+  });
+}
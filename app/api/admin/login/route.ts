@@ -1,17 +1,50 @@
 import { NextResponse } from "next/server";
 
-import { createSession, setSessionCookie } from "@/lib/auth";
+import { sessionsUnavailable, signInResponse } from "@/lib/auth";
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  startLoginAttempt,
+  tooManyAttempts,
+} from "@/lib/login-throttle";
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+import { signChallenge } from "@/lib/session-token";
+import { hashPassword, verifyPassword } from "@/lib/users";
 
-export async function POST(request: Request) {
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Before any user exists, the ADMIN_USERNAME/ADMIN_PASSWORD pair from env
+ * signs in once and becomes the first owner. After that env is ignored and
+ * further users are invited from /admin/users.
+ */
+async function bootstrapOwner(username: string, password: string) {
   const adminUsername = process.env.ADMIN_USERNAME;
   const adminPassword = process.env.ADMIN_PASSWORD;
 
   if (!adminUsername || !adminPassword) {
-    return NextResponse.json(
-      { error: "Admin credentials are not configured." },
-      { status: 500 }
-    );
+    return { user: null, error: "No users exist and admin credentials are not configured." };
   }
+  if (username !== adminUsername || password !== adminPassword) {
+    return { user: null };
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      username: adminUsername,
+      role: "owner",
+      passwordHash: await hashPassword(adminPassword),
+    },
+  });
+  return { user };
+}
+
+export async function POST(request: Request) {
+  const unavailable = sessionsUnavailable();
+  if (unavailable) return unavailable;
 
   let body: { username?: string; password?: string } = {};
   try {
@@ -20,17 +53,58 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
   }
 
-  const { username, password } = body;
+  const username = typeof body.username === "string" ? body.username.trim() : "";
+  const password = typeof body.password === "string" ? body.password : "";
 
-  if (username !== adminUsername || password !== adminPassword) {
+  if (!username || !password) {
     return NextResponse.json({ error: "Invalid credentials." }, { status: 401 });
   }
 
-  const { token, payload } = createSession(adminUsername);
-  const response = NextResponse.json({ ok: true, exp: payload.exp });
+  const ip = clientIp(request);
 
-  setSessionCookie(response, token, payload.exp - Date.now());
+  try {
+    const throttle = await startLoginAttempt(ip, username);
+    if (throttle.limited) {
+      return tooManyAttempts(throttle, ip, username);
+    }
 
-  return response;
-}
+    let user = await prisma.user.findUnique({ where: { username } });
+    // Logged only; the response never says which part was wrong.
+    let failure: string | null = null;
+
+    if (!user && (await prisma.user.count()) === 0) {
+      const bootstrap = await bootstrapOwner(username, password);
+      if (bootstrap.error) {
+        return NextResponse.json({ error: bootstrap.error }, { status: 500 });
+      }
+      user = bootstrap.user;
+      failure = user ? null : "does not match the env credentials";
+    } else if (!user) {
+      failure = "unknown username";
+    } else if (!user.active) {
+      failure = "user is deactivated";
+    } else if (!(await verifyPassword(password, user.passwordHash))) {
+      failure = "wrong password";
+    }
+
+    if (!user || failure) {
+      recordLoginFailure(ip, username, failure ?? "invalid credentials");
+      return NextResponse.json({ error: "Invalid credentials." }, { status: 401 });
+    }
+
+    // Right password; with two-factor on, the session waits for a code.
+    if (user.totpSecret) {
+      await releaseLoginAttempt(ip, username);
+      return NextResponse.json({ twoFactor: true, challenge: signChallenge(user.id) });
+    }
 
+    await recordLoginSuccess(ip, username);
+    return signInResponse(user, request);
+  } catch (error: any) {
+    console.error("Error signing in:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+
+import { signInResponse } from "@/lib/auth";
+import {
+  recordLoginFailure,
+  recordLoginSuccess,
+  startLoginAttempt,
+  tooManyAttempts,
+} from "@/lib/login-throttle";
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+import { verifyChallenge } from "@/lib/session-token";
+import { checkSecondFactor } from "@/lib/two-factor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Second sign-in step for users with two-factor on: the challenge from
+ * /api/admin/login plus an authenticator or recovery code. Wrong codes count
+ * towards the same throttle as wrong passwords.
+ */
+export async function POST(request: Request) {
+  let body: { challenge?: string; code?: string } = {};
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
+
+  const challenge = verifyChallenge(body.challenge);
+  if (!challenge) {
+    return NextResponse.json(
+      { error: "Sign-in expired. Enter your password again.", expired: true },
+      { status: 401 }
+    );
+  }
+
+  const code = typeof body.code === "string" ? body.code.trim() : "";
+  const ip = clientIp(request);
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: challenge.userId } });
+    if (!user || !user.active || !user.totpSecret) {
+      return NextResponse.json(
+        { error: "Sign-in expired. Enter your password again.", expired: true },
+        { status: 401 }
+      );
+    }
+
+    const throttle = await startLoginAttempt(ip, user.username);
+    if (throttle.limited) {
+      return tooManyAttempts(throttle, ip, user.username);
+    }
+
+    const consumed = code ? checkSecondFactor(user, code) : null;
+    if (!consumed) {
+      recordLoginFailure(ip, user.username, "wrong two-factor code");
+      return NextResponse.json({ error: "Invalid code." }, { status: 401 });
+    }
+
+    // Only if the row is unchanged since we read it, so two requests racing
+    // with the same code can't both get in.
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, updatedAt: user.updatedAt },
+      data: consumed,
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Invalid code." }, { status: 401 });
+    }
+
+    await recordLoginSuccess(ip, user.username);
+    return signInResponse(user, request);
+  } catch (error: any) {
+    console.error("Error verifying two-factor code:", error);
+    return NextResponse.json(
+      { error: "Failed to sign in", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
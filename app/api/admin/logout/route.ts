@@ -1,10 +1,35 @@
 import { NextResponse } from "next/server";
 
-import { clearSessionCookie } from "@/lib/auth";
+import {
+  clearSessionCookie,
+  getSessionFromCookies,
+  revokeSessions,
+} from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Revoke this session, so the token stops working even if it was copied,
+ * and clear the cookie. `?everywhere=1` revokes all of the user's sessions.
+ */
+export async function POST(request: Request) {
+  const session = await getSessionFromCookies();
+  const everywhere = new URL(request.url).searchParams.get("everywhere") === "1";
+
+  try {
+    if (session) {
+      await revokeSessions(everywhere ? { userId: session.userId } : { id: session.sid });
+    }
+  } catch (error: any) {
+    console.error("Error revoking session:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out", details: error?.message },
+      { status: 500 }
+    );
+  }
 
-export async function POST() {
   const response = NextResponse.json({ ok: true });
   clearSessionCookie(response);
   return response;
 }
-
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { revokeSessions, sessionsUnavailable, signInResponse } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { signChallenge } from "@/lib/session-token";
+import {
+  clearedUserToken,
+  hashPassword,
+  hashUserToken,
+  validatePassword,
+} from "@/lib/users";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Set a password from an invite or reset link and sign the user in. Public:
+ * the link token is the credential, and it only works once. Users with
+ * two-factor on get a challenge instead, to finish at /api/admin/login/verify.
+ */
+export async function POST(req: Request) {
+  const unavailable = sessionsUnavailable();
+  if (unavailable) return unavailable;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const token = body?.token?.toString();
+  if (!token) {
+    return NextResponse.json({ error: "Link token is required" }, { status: 400 });
+  }
+  const passwordError = validatePassword(body?.password);
+  if (passwordError) {
+    return NextResponse.json({ error: passwordError }, { status: 400 });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { tokenHash: hashUserToken(token) },
+    });
+    if (!user || !user.active || !user.tokenExpiresAt || user.tokenExpiresAt < new Date()) {
+      return NextResponse.json(
+        { error: "This link is invalid or has expired. Ask an owner for a new one." },
+        { status: 410 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash: await hashPassword(body.password),
+        ...clearedUserToken,
+      },
+    });
+
+    // A new password signs out everywhere the old one was used.
+    await revokeSessions({ userId: user.id });
+
+    // The link stands in for the password, not the second factor.
+    if (user.totpSecret) {
+      return NextResponse.json({ twoFactor: true, challenge: signChallenge(user.id) });
+    }
+
+    return signInResponse(user, req);
+  } catch (error: any) {
+    console.error("Error setting password:", error);
+    return NextResponse.json(
+      { error: "Failed to set password", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
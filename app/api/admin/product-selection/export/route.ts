@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+
+import { getAreaOrder, groupByArea } from "@/lib/areas";
+import { requireApiRole } from "@/lib/auth";
+import { parseAmount } from "@/lib/pricing";
+import type { IncomingProduct } from "@/lib/selections";
+import {
+  EXPORT_CONTENT_TYPES,
+  parseExportFormat,
+  renderExport,
+  type SheetCell,
+} from "@/lib/spreadsheet";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Spreadsheet of a selection: one line per product with quantity, unit price
+ * and line total, followed by subtotal, GST and total. Takes the same body as
+ * the generate route; `?format=csv|xlsx` and optional repeated `?area=`.
+ */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { searchParams } = new URL(req.url);
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json(
+      { error: "Format must be csv or xlsx" },
+      { status: 400 }
+    );
+  }
+  const areas = searchParams.getAll("area").map((a) => a.trim().toLowerCase());
+
+  let payload: any;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { address, products } = payload ?? {};
+
+  if (!address || typeof address !== "string" || !address.trim()) {
+    return NextResponse.json({ error: "Address is required" }, { status: 400 });
+  }
+
+  if (!Array.isArray(products) || products.length === 0) {
+    return NextResponse.json(
+      { error: "At least one product is required" },
+      { status: 400 }
+    );
+  }
+
+  const items = (products as IncomingProduct[]).filter(
+    (p) =>
+      areas.length === 0 || areas.includes((p?.category || "Other").toLowerCase())
+  );
+
+  let subtotal = 0;
+  const rows: SheetCell[][] = [];
+  let groups;
+  try {
+    groups = groupByArea(items, (p) => p?.category, await getAreaOrder());
+  } catch (error: any) {
+    console.error("Error loading areas:", error);
+    return NextResponse.json(
+      { error: "Failed to load areas", details: error?.message },
+      { status: 500 }
+    );
+  }
+
+  for (const group of groups) {
+    for (const p of group.items) {
+      const unitPrice = parseAmount(p.price);
+      // A blank quantity means one of the item.
+      const quantity = p.quantity?.trim() ? parseAmount(p.quantity) : 1;
+      const lineTotal =
+        unitPrice !== null && quantity !== null ? unitPrice * quantity : null;
+      if (lineTotal !== null) subtotal += lineTotal;
+
+      rows.push([
+        p.code || "",
+        p.description || "",
+        group.label,
+        p.areaDescription || "",
+        p.quantity || "",
+        unitPrice,
+        lineTotal,
+      ]);
+    }
+  }
+
+  try {
+    const file = await renderExport(
+      {
+        title: "Selection",
+        columns: [
+          { header: "Code", width: 18 },
+          { header: "Description", width: 48 },
+          { header: "Area", width: 16 },
+          { header: "Location", width: 24 },
+          { header: "Quantity", width: 10 },
+          { header: "Unit price", width: 14, money: true },
+          { header: "Line total", width: 14, money: true },
+        ],
+        rows,
+        subtotal,
+      },
+      format
+    );
+
+    const safeAddress = address.replace(/[^a-z0-9_-]+/gi, "_");
+    return new NextResponse(file, {
+      status: 200,
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="Product_Selection_${safeAddress}.${format}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error exporting selection:", error);
+    return NextResponse.json(
+      { error: "Failed to export selection", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
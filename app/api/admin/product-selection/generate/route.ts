@@ -1,4 +1,14 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { getAreaOrder, groupByArea, type AreaOrder } from "@/lib/areas";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { imageVariantUrl } from "@/lib/image-variants";
+import {
+  renderSelectionPdf,
+  type SelectionDocumentData,
+  type SelectionDocumentProduct,
+} from "@/lib/selection-pdf";
+import { recordSelectionRevision, type IncomingProduct } from "@/lib/selections";
+import { hasRole } from "@/lib/users";
 import Docxtemplater from "docxtemplater";
 import ImageModule from "docxtemplater-image-module-free";
 import { NextResponse } from "next/server";
@@ -9,30 +19,6 @@ import path from "path";
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type IncomingProduct = {
-  category?: string;
-  code?: string;
-  description?: string;
-  manufacturerDescription?: string;
-  productDetails?: string;
-  areaDescription?: string;
-  quantity?: string;
-  price?: string;
-  notes?: string;
-  image?: string | null; // base64
-  imageUrl?: string | null; // public URL to fetch
-};
-
-const CATEGORY_ORDER = [
-  "Kitchen",
-  "Bathroom",
-  "Bedroom",
-  "Living Room",
-  "Laundry",
-  "Balcony",
-  "Other",
-];
-
 function formatDate(input?: string) {
   const parsed = input ? new Date(input) : new Date();
   if (Number.isNaN(parsed.getTime())) return "";
@@ -43,46 +29,16 @@ function formatDate(input?: string) {
   });
 }
 
-export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  let payload: any;
-  try {
-    payload = await req.json();
-  } catch {
-    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
-  }
-
-  const {
-    address,
-    date,
-    contactName,
-    company,
-    phoneNumber,
-    email,
-    products,
-  } = payload ?? {};
-
-  if (!address || typeof address !== "string" || !address.trim()) {
-    return NextResponse.json({ error: "Address is required" }, { status: 400 });
-  }
-
-  if (!Array.isArray(products) || products.length === 0) {
-    return NextResponse.json(
-      { error: "At least one product is required" },
-      { status: 400 }
-    );
+class TemplateError extends Error {
+  constructor(message: string, public details?: string) {
+    super(message);
   }
+}
 
+function renderDocx(data: SelectionDocumentData, hasImages: boolean): Buffer {
   const templatePath = path.join(process.cwd(), "public", "product-selection.docx");
   if (!fs.existsSync(templatePath)) {
-    return NextResponse.json(
-      { error: "Template file not found" },
-      { status: 500 }
-    );
+    throw new TemplateError("Template file not found");
   }
 
   const content = fs.readFileSync(templatePath, "binary");
@@ -91,14 +47,9 @@ export async function POST(req: Request) {
   try {
     zip = new PizZip(content);
   } catch (err: any) {
-    return NextResponse.json(
-      { error: "Template file is corrupted", details: err?.message },
-      { status: 500 }
-    );
+    throw new TemplateError("Template file is corrupted", err?.message);
   }
 
-  const hasImages = products.some((p: IncomingProduct) => p?.image);
-
   const modules = hasImages
     ? [
         new ImageModule({
@@ -119,13 +70,71 @@ export async function POST(req: Request) {
       ...(modules ? { modules } : {}),
     });
   } catch (err: any) {
+    throw new TemplateError("Template structure invalid", err?.message);
+  }
+
+  doc.setData(data);
+
+  try {
+    doc.render();
+  } catch (err: any) {
+    const details =
+      err?.properties?.errors
+        ?.map((e: any) => `${e.name}: ${e.message}`)
+        .join("; ") || err?.message;
+
+    throw new TemplateError("Template rendering failed", details);
+  }
+
+  return doc.getZip().generate({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+  });
+}
+
+/**
+ * Render a product selection. Returns the Word document by default, or a
+ * PDF with the same layout when called with `?format=pdf`. With a
+ * `selectionId` from an estimator, the file is also kept as a revision;
+ * viewers can generate but not record revisions.
+ */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  let payload: any;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const {
+    address,
+    date,
+    contactName,
+    company,
+    phoneNumber,
+    email,
+    products,
+    includePriceDates,
+    selectionId,
+  } = payload ?? {};
+
+  if (!address || typeof address !== "string" || !address.trim()) {
+    return NextResponse.json({ error: "Address is required" }, { status: 400 });
+  }
+
+  if (!Array.isArray(products) || products.length === 0) {
     return NextResponse.json(
-      { error: "Template structure invalid", details: err?.message },
-      { status: 500 }
+      { error: "At least one product is required" },
+      { status: 400 }
     );
   }
 
-  const productsByCategory: Record<string, any[]> = {};
+  const format = new URL(req.url).searchParams.get("format") === "pdf" ? "pdf" : "docx";
+
+  const rendered: { area: string; product: SelectionDocumentProduct }[] = [];
 
   const fetchImageAsBase64 = async (url?: string | null) => {
     if (!url) return "";
@@ -140,72 +149,143 @@ export async function POST(req: Request) {
   };
 
   for (const raw of products as IncomingProduct[]) {
-    const category = raw?.category || "Other";
-    if (!productsByCategory[category]) productsByCategory[category] = [];
-
+    // Images print at 132×132, so the JPEG thumbnail is enough; neither
+    // Word nor pdf-lib reads WebP.
     const base64 =
       raw?.image && raw.image.length > 10
         ? raw.image
-        : await fetchImageAsBase64(raw?.imageUrl);
-
-    productsByCategory[category].push({
-      code: raw?.code || "",
-      description: raw?.description || "",
-      "manufacturer-description": raw?.manufacturerDescription || "",
-      "product-details": raw?.productDetails || "",
-      "area-description": raw?.areaDescription || "",
-      quantity: raw?.quantity || "",
-      price: raw?.price || "",
-      notes: raw?.notes || "",
-      image: base64 || "",
+        : await fetchImageAsBase64(imageVariantUrl(raw?.imageUrl, "thumb", "jpeg"));
+
+    const pricedAsOf = raw?.pricedAt ? formatDate(raw.pricedAt) : "";
+    const price =
+      includePriceDates && raw?.price && pricedAsOf
+        ? `${raw.price} (priced as of ${pricedAsOf})`
+        : raw?.price || "";
+
+    rendered.push({
+      area: raw?.category || "Other",
+      product: {
+        code: raw?.code || "",
+        description: raw?.description || "",
+        "manufacturer-description": raw?.manufacturerDescription || "",
+        "product-details": raw?.productDetails || "",
+        "area-description": raw?.areaDescription || "",
+        quantity: raw?.quantity || "",
+        price,
+        "priced-as-of": pricedAsOf,
+        notes: raw?.notes || "",
+        image: base64 || "",
+      },
     });
   }
 
-  const categories = CATEGORY_ORDER.filter(
-    (cat) => productsByCategory[cat]?.length > 0
-  ).map((cat) => ({
-    "category-name": cat.toUpperCase(),
-    products: productsByCategory[cat],
+  let areas: AreaOrder[] = [];
+  try {
+    areas = await getAreaOrder();
+  } catch (err) {
+    // Without the ordering every area is still rendered, alphabetically.
+    console.error("Failed to load area order:", err);
+  }
+
+  const categories = groupByArea(rendered, (r) => r.area, areas).map((group) => ({
+    "category-name": group.label.toUpperCase(),
+    products: group.items.map((r) => r.product),
   }));
 
-  doc.setData({
+  const latestPricedAt = (products as IncomingProduct[])
+    .map((p) => (p?.pricedAt ? new Date(p.pricedAt).getTime() : NaN))
+    .filter((t) => !Number.isNaN(t))
+    .sort((a, b) => b - a)[0];
+
+  const data: SelectionDocumentData = {
     address: address.trim(),
     date: formatDate(date),
+    "prices-as-of": latestPricedAt
+      ? formatDate(new Date(latestPricedAt).toISOString())
+      : "",
     "contact-name": contactName || "",
     company: company || "",
     "phone-number": phoneNumber || "",
     email: email || "",
     categories,
-  });
+  };
 
+  let buffer: Buffer;
   try {
-    doc.render();
+    buffer =
+      format === "pdf"
+        ? await renderSelectionPdf(data)
+        : renderDocx(data, products.some((p: IncomingProduct) => p?.image));
   } catch (err: any) {
-    const details =
-      err?.properties?.errors
-        ?.map((e: any) => `${e.name}: ${e.message}`)
-        .join("; ") || err?.message;
-
+    if (err instanceof TemplateError) {
+      return NextResponse.json(
+        { error: err.message, details: err.details },
+        { status: 500 }
+      );
+    }
+    console.error("Error rendering selection:", err);
     return NextResponse.json(
-      { error: "Template rendering failed", details },
+      { error: "Document rendering failed", details: err?.message },
       { status: 500 }
     );
   }
 
-  const buffer = doc.getZip().generate({
-    type: "nodebuffer",
-    compression: "DEFLATE",
-  });
-
   const safeAddress = address.replace(/[^a-z0-9_-]+/gi, "_");
+  const fileName = `Product_Selection_${safeAddress}.${format}`;
+  const contentType =
+    format === "pdf"
+      ? "application/pdf"
+      : "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+  const headers: Record<string, string> = {
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${fileName}"`,
+  };
+
+  if (typeof selectionId === "string" && selectionId && hasRole(session.role, "estimator")) {
+    try {
+      const revision = await recordSelectionRevision({
+        selectionId,
+        createdBy: session.username,
+        file: buffer,
+        fileName,
+        contentType,
+        // Inline base64 images are dropped; the stored file already has them.
+        snapshot: JSON.parse(
+          JSON.stringify({
+            ...payload,
+            products: (products as IncomingProduct[]).map((p) => ({
+              ...p,
+              image: null,
+            })),
+          })
+        ),
+      });
+      headers["X-Selection-Revision"] = String(revision.number);
+    } catch (err) {
+      // The document is still returned; a missing revision is logged only.
+      console.error("Failed to record selection revision:", err);
+    }
+  }
+
+  await recordAudit(session, req, {
+    action: "selection.generate",
+    entity: "selection",
+    entityId: typeof selectionId === "string" && selectionId ? selectionId : null,
+    summary: `${data.address} (${format}${
+      headers["X-Selection-Revision"] ? `, revision ${headers["X-Selection-Revision"]}` : ""
+    })`,
+    after: {
+      address: data.address,
+      format,
+      revision: headers["X-Selection-Revision"] ? Number(headers["X-Selection-Revision"]) : null,
+      products: (products as IncomingProduct[]).map((p) => p?.code || ""),
+    },
+  });
 
   return new NextResponse(buffer, {
     status: 200,
-    headers: {
-      "Content-Type":
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      "Content-Disposition": `attachment; filename="Product_Selection_${safeAddress}.docx"`,
-    },
+    headers,
   });
 }
 
@@ -1,78 +1,85 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import { resolveProductCodes } from "@/lib/aliases";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { rankCodeCandidates } from "@/lib/code-matching";
+import { readPdfLayout } from "@/lib/pdf-layout";
+import { latestPriceInclude } from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
+import { extractSupplierCodes, resolveSupplier } from "@/lib/supplier-parsers";
+import type { Prisma } from "@prisma/client";
 import { NextResponse } from "next/server";
-import pdfParse from "pdf-parse";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+async function findProducts(where: Prisma.ProductWhereInput) {
+  const products = await prisma.product.findMany({
+    where,
+    include: {
+      area: true,
+      ...latestPriceInclude,
+    },
+  });
+
+  return products.map((p) => ({
+    id: p.id,
+    code: p.code,
+    description: p.description,
+    manufacturerDescription: p.manufacturerDescription,
+    productDetails: p.productDetails,
+    price: p.price,
+    imageUrl: p.imageUrl,
+    area: p.area,
+    prices: p.prices,
+  }));
+}
+
 /**
- * Parse PDF to extract product codes
- * Looks for alphanumeric codes that match BWA patterns
+ * Catalog products close to each unmatched code (separators, suffixes,
+ * typos), best first. Codes with no candidates are left out.
  */
-function extractProductCodes(text: string): string[] {
-  const codes = new Set<string>();
-  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
-
-  // Pattern for product codes - alphanumeric with possible dashes/underscores
-  // BWA codes are typically uppercase letters + numbers
-  const codePatterns = [
-    /\b([A-Z]{2,}[\-_]?[A-Z0-9]{2,}[\-_]?[A-Z0-9]*)\b/g, // e.g. BW-001, ABC123
-    /\b([A-Z][A-Z0-9]{4,20})\b/g, // e.g. PROD12345
-    /\b([A-Z]{2,4}\d{3,})\b/g, // e.g. BW001, ABC1234
-  ];
-
-  for (const line of lines) {
-    // Skip header/footer lines
-    if (
-      line.toLowerCase().includes("product code") ||
-      line.toLowerCase().includes("description") ||
-      line.toLowerCase().includes("subtotal") ||
-      line.toLowerCase().includes("total:") ||
-      line.toLowerCase().includes("gst") ||
-      line.toLowerCase().includes("page ")
-    ) {
-      continue;
-    }
-
-    for (const pattern of codePatterns) {
-      const matches = line.matchAll(pattern);
-      for (const match of matches) {
-        const code = match[1].toUpperCase();
-        // Filter out common non-product strings
-        if (
-          code.length >= 4 &&
-          code.length <= 30 &&
-          !["DATE", "QUOTE", "ORDER", "TOTAL", "PRICE", "ITEM", "CODE", "DESC", "NAME", "PAGE", "FROM", "SENT", "EMAIL", "PHONE", "ADDRESS"].includes(code)
-        ) {
-          codes.add(code);
-        }
-      }
-    }
-
-    // Also try to extract from table-like structures
-    // Split by multiple spaces and check first column
-    const parts = line.split(/\s{2,}/).filter(Boolean);
-    if (parts.length >= 2) {
-      const potentialCode = parts[0].trim().toUpperCase();
-      if (/^[A-Z][A-Z0-9\-_]{3,}$/.test(potentialCode)) {
-        codes.add(potentialCode);
-      }
-    }
-  }
-
-  return Array.from(codes);
+async function suggestMatches(codes: string[]) {
+  if (codes.length === 0) return [];
+
+  const catalog = (
+    await prisma.product.findMany({
+      where: { archived: false },
+      select: { id: true, code: true, aliases: { select: { code: true } } },
+    })
+  ).map((p) => ({ id: p.id, code: p.code, aliases: p.aliases.map((a) => a.code) }));
+  const ranked = codes
+    .map((code) => ({ code, candidates: rankCodeCandidates(code, catalog) }))
+    .filter((r) => r.candidates.length > 0);
+
+  const ids = new Set(ranked.flatMap((r) => r.candidates.map((c) => c.product.id)));
+  const details = new Map(
+    (await findProducts({ id: { in: Array.from(ids) } })).map((p) => [p.id, p])
+  );
+
+  return ranked.map(({ code, candidates }) => ({
+    code,
+    candidates: candidates.map(({ product, score, reason }) => ({
+      product: details.get(product.id)!,
+      score,
+      reason,
+    })),
+  }));
 }
 
+/**
+ * Find catalog products whose codes appear in a supplier PDF. The optional
+ * `supplier` form field picks the code pattern; otherwise it is detected.
+ * Codes without an exact match come back in `suggestions` with ranked
+ * near matches to confirm.
+ */
 export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
 
   try {
     const formData = await req.formData();
     const file = formData.get("pdf") as File | null;
+    const requested = formData.get("supplier")?.toString() || null;
 
     if (!file) {
       return NextResponse.json({ error: "No PDF file provided" }, { status: 400 });
@@ -85,53 +92,58 @@ export async function POST(req: Request) {
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
-    const pdfData = await pdfParse(buffer);
-    const extractedText = pdfData.text;
+    const layout = await readPdfLayout(buffer);
 
-    // Extract product codes from the PDF
-    const extractedCodes = extractProductCodes(extractedText);
+    const { profile, detected } = resolveSupplier(layout.text, requested);
+    const extractedCodes = extractSupplierCodes(layout.rows, profile);
+    const supplier = { supplier: profile.name, supplierId: profile.id, detected };
+    // Scanned pages were read with OCR; their codes need a check.
+    const ocr = { ocr: layout.ocrPages.length > 0, ocrPages: layout.ocrPages };
+
+    await recordAudit(session, req, {
+      action: "pdf.parse",
+      entity: "pdf",
+      summary: `${file.name}: ${extractedCodes.length} codes (${profile.name})`,
+      after: { fileName: file.name, size: file.size, ...supplier, extractedCodes },
+    });
 
     if (extractedCodes.length === 0) {
       return NextResponse.json({
         success: true,
+        ...supplier,
+        ...ocr,
         products: [],
         extractedCodes: [],
-        message: "No product codes found in PDF",
+        message: layout.ocrPages.length
+          ? "No product codes found in the OCR text of this scanned PDF"
+          : "No product codes found in PDF",
       });
     }
 
-    // Look up matching products in the database
-    const matchingProducts = await prisma.product.findMany({
-      where: {
-        code: {
-          in: extractedCodes,
-        },
-      },
-      include: {
-        area: true,
-      },
+    // Look up matching products in the database, by code or alias
+    const resolved = await resolveProductCodes(extractedCodes, {
+      supplier: profile.id === "generic" ? null : profile.name,
+      where: { archived: false },
+    });
+    const matchingProducts = await findProducts({
+      id: { in: Array.from(new Set(resolved.values())) },
     });
 
     // Track which codes were found and which weren't
-    const foundCodes = new Set(matchingProducts.map((p) => p.code));
+    const foundCodes = new Set(resolved.keys());
     const notFoundCodes = extractedCodes.filter((c) => !foundCodes.has(c));
+    const suggestions = await suggestMatches(notFoundCodes);
 
     return NextResponse.json({
       success: true,
-      products: matchingProducts.map((p) => ({
-        id: p.id,
-        code: p.code,
-        description: p.description,
-        manufacturerDescription: p.manufacturerDescription,
-        productDetails: p.productDetails,
-        price: p.price,
-        imageUrl: p.imageUrl,
-        area: p.area,
-      })),
+      ...supplier,
+      products: matchingProducts,
       extractedCodes,
       foundCodes: Array.from(foundCodes),
       notFoundCodes,
-      pageCount: pdfData.numpages,
+      suggestions,
+      pageCount: layout.pageCount,
+      ...ocr,
     });
   } catch (error: unknown) {
     console.error("Error parsing PDF:", error);
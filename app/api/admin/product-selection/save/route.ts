@@ -1,6 +1,16 @@
-import { getSessionFromCookies } from "@/lib/auth";
+import type { Prisma, Product } from "@prisma/client";
+
+import { normaliseAliasCode, resolveProductCodes } from "@/lib/aliases";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { ImageValidationError, imageKeyBase, storeProductImage } from "@/lib/images";
+import {
+  PRICE_SOURCES,
+  parsePriceTier,
+  priceChanged,
+  recordPrice,
+} from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
-import { getPublicUrl, uploadToR2 } from "@/lib/r2";
 import { NextResponse } from "next/server";
 
 export const runtime = "nodejs";
@@ -18,8 +28,39 @@ type IncomingProduct = {
   notes?: string;
   image?: string | null;
   imageUrl?: string | null;
+  action?: ImportAction;
 };
 
+const IMPORT_ACTIONS = ["create", "update", "skip"] as const;
+type ImportAction = (typeof IMPORT_ACTIONS)[number];
+
+function isImportAction(value: unknown): value is ImportAction {
+  return typeof value === "string" && (IMPORT_ACTIONS as readonly string[]).includes(value);
+}
+
+type RowStatus = "new" | "unchanged" | "changed";
+
+type NormalizedRow = {
+  index: number;
+  raw: IncomingProduct;
+  code: string;
+  areaName: string;
+  description: string;
+  manufacturerDescription: string | null;
+  productDetails: string | null;
+  price: number | null;
+};
+
+type ExistingProduct = {
+  id: string;
+  code: string;
+  description: string;
+  manufacturerDescription: string | null;
+  price: Prisma.Decimal | null;
+};
+
+const PLACEHOLDER_IMAGE = "https://placehold.co/600x600?text=No+Image";
+
 function buildProductDetails(p: IncomingProduct) {
   const parts: string[] = [];
   if (p.productDetails?.trim()) parts.push(p.productDetails.trim());
@@ -29,11 +70,81 @@ function buildProductDetails(p: IncomingProduct) {
   return parts.length ? parts.join(" | ") : null;
 }
 
-export async function POST(req: Request) {
-  const session = await getSessionFromCookies();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+function normalizeRow(raw: IncomingProduct, index: number): NormalizedRow {
+  const code = raw?.code?.trim() || "";
+  const priceNumber = raw?.price ? Number.parseFloat(raw.price) : NaN;
+
+  return {
+    index,
+    raw,
+    code,
+    areaName: (raw?.category || raw?.areaDescription || "Other").trim() || "Other",
+    description:
+      raw?.description?.trim() || raw?.manufacturerDescription?.trim() || code,
+    manufacturerDescription: raw?.manufacturerDescription?.trim() || null,
+    productDetails: buildProductDetails(raw),
+    price: Number.isFinite(priceNumber) ? priceNumber : null,
+  };
+}
+
+/**
+ * Compare an incoming row against the stored product. Only the fields an
+ * import is allowed to change (price and descriptions) are considered.
+ */
+function diffRow(row: NormalizedRow, existing?: ExistingProduct) {
+  if (!existing) return { status: "new" as RowStatus, changes: [] };
+
+  const changes: string[] = [];
+  if (row.price !== null && priceChanged(existing.price, row.price)) {
+    changes.push("price");
+  }
+  if (row.description !== existing.description) {
+    changes.push("description");
+  }
+  if (
+    row.manufacturerDescription !== null &&
+    row.manufacturerDescription !== existing.manufacturerDescription
+  ) {
+    changes.push("manufacturerDescription");
+  }
+
+  return {
+    status: (changes.length ? "changed" : "unchanged") as RowStatus,
+    changes,
+  };
+}
+
+function defaultAction(status: RowStatus): ImportAction {
+  if (status === "new") return "create";
+  if (status === "changed") return "update";
+  return "skip";
+}
+
+async function uploadRowImage(row: NormalizedRow) {
+  if (!row.raw?.image || row.raw.image.length <= 10) return null;
+
+  const buffer = Buffer.from(row.raw.image, "base64");
+  try {
+    return await storeProductImage(imageKeyBase("product-sheet", row.code), buffer);
+  } catch (error) {
+    if (error instanceof ImageValidationError) {
+      throw new ImageValidationError(`Image for ${row.code}: ${error.message}`);
+    }
+    throw error;
   }
+}
+
+/**
+ * Import rows from the BWA screen.
+ *
+ * With `dryRun: true` nothing is written; each row is reported as new,
+ * unchanged or changed against the catalog. Otherwise every row is applied
+ * according to its `action` (create, update or skip, defaulting from the
+ * diff) inside a single transaction, so a failure leaves the catalog as it was.
+ */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
 
   let payload: any;
   try {
@@ -43,6 +154,11 @@ export async function POST(req: Request) {
   }
 
   const { products } = payload ?? {};
+  const dryRun = payload?.dryRun === true;
+  const priceSource =
+    payload?.source?.toString().trim() || PRICE_SOURCES.bwaImport;
+  const supplier = payload?.supplier?.toString().trim() || null;
+  const priceTier = parsePriceTier(payload?.priceTier);
 
   if (!Array.isArray(products) || products.length === 0) {
     return NextResponse.json(
@@ -51,78 +167,257 @@ export async function POST(req: Request) {
     );
   }
 
-  const saved = [];
+  const rows = (products as IncomingProduct[]).map(normalizeRow);
 
+  const missingCode = rows.find((row) => !row.code);
+  if (missingCode) {
+    return NextResponse.json(
+      {
+        error: "Product code is required for all rows.",
+        row: missingCode.index,
+      },
+      { status: 400 }
+    );
+  }
+
+  // A missing action means the default for the row's status.
+  const badAction = rows.find(
+    (row) => (row.raw?.action ?? null) !== null && !isImportAction(row.raw.action)
+  );
+  if (badAction) {
+    return NextResponse.json(
+      {
+        error: `Row ${badAction.index + 1} (${badAction.code}) has action "${badAction.raw.action}"; use ${IMPORT_ACTIONS.join(", ")}.`,
+        row: badAction.index,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Keyed by the incoming code. A supplier SKU that is an alias maps to its
+  // catalog product, so the import updates that product instead of adding
+  // a duplicate.
+  const existingByCode = new Map<string, ExistingProduct>();
   try {
-    for (const raw of products as IncomingProduct[]) {
-      const areaName = (raw?.category || raw?.areaDescription || "Other").trim();
-      const code = raw?.code?.trim();
-      if (!code) {
-        throw new Error("Product code is required for all rows.");
-      }
+    const resolved = await resolveProductCodes(
+      rows.map((row) => row.code),
+      { supplier }
+    );
+    const existing = await prisma.product.findMany({
+      where: { id: { in: Array.from(new Set(resolved.values())) } },
+      select: {
+        id: true,
+        code: true,
+        description: true,
+        manufacturerDescription: true,
+        price: true,
+      },
+    });
+    const byId = new Map(existing.map((p) => [p.id, p]));
+    for (const [code, id] of resolved) {
+      const product = byId.get(id);
+      if (product) existingByCode.set(code, product);
+    }
+  } catch (error: any) {
+    console.error("Error loading existing products:", error);
+    return NextResponse.json(
+      { error: "Failed to load existing products", details: error?.message },
+      { status: 500 }
+    );
+  }
 
-      const area =
-        (await prisma.area.findFirst({ where: { name: areaName } })) ||
-        (await prisma.area.create({ data: { name: areaName || "Other" } }));
-
-      const description =
-        raw?.description?.trim() ||
-        raw?.manufacturerDescription?.trim() ||
-        code;
-      const manufacturerDescription =
-        raw?.manufacturerDescription?.trim() || null;
-      const productDetails = buildProductDetails(raw);
-
-      const priceNumber = raw?.price ? Number.parseFloat(raw.price) : NaN;
-      const price =
-        Number.isFinite(priceNumber) && !Number.isNaN(priceNumber)
-          ? priceNumber
-          : null;
-
-      let imageUrl = raw?.imageUrl?.trim() || "";
-
-      if (raw?.image && raw.image.length > 10) {
-        const buffer = Buffer.from(raw.image, "base64");
-        const key = `product-sheet/${code}-${Date.now()}.jpg`;
-        await uploadToR2({
-          key,
-          body: buffer,
-          contentType: "image/jpeg",
-        });
-        imageUrl = getPublicUrl(key);
-      }
+  const codeCounts = new Map<string, number>();
+  for (const row of rows) {
+    codeCounts.set(row.code, (codeCounts.get(row.code) ?? 0) + 1);
+  }
+
+  const review = rows.map((row) => {
+    const existing = existingByCode.get(row.code);
+    const { status, changes } = diffRow(row, existing);
+    return {
+      index: row.index,
+      code: row.code,
+      status,
+      changes,
+      duplicate: (codeCounts.get(row.code) ?? 0) > 1,
+      aliasOf:
+        existing && normaliseAliasCode(existing.code) !== normaliseAliasCode(row.code)
+          ? existing.code
+          : null,
+      incoming: {
+        description: row.description,
+        manufacturerDescription: row.manufacturerDescription,
+        price: row.price,
+      },
+      existing: existing
+        ? {
+            id: existing.id,
+            code: existing.code,
+            description: existing.description,
+            manufacturerDescription: existing.manufacturerDescription,
+            price: existing.price?.toString() ?? null,
+          }
+        : null,
+      action: row.raw?.action ?? defaultAction(status),
+    };
+  });
+
+  if (dryRun) {
+    return NextResponse.json({ dryRun: true, rows: review });
+  }
 
-      if (!imageUrl) {
-        imageUrl = "https://placehold.co/600x600?text=No+Image";
+  const seen = new Set<string>();
+  const seenProducts = new Map<string, string>();
+  for (const item of review) {
+    if (item.action === "skip") continue;
+
+    if (seen.has(item.code)) {
+      return NextResponse.json(
+        { error: `Code ${item.code} appears more than once in this import.` },
+        { status: 400 }
+      );
+    }
+    seen.add(item.code);
+
+    if (item.existing) {
+      const other = seenProducts.get(item.existing.id);
+      if (other) {
+        return NextResponse.json(
+          {
+            error: `Codes ${other} and ${item.code} are both product ${item.existing.code}; skip one.`,
+          },
+          { status: 400 }
+        );
       }
+      seenProducts.set(item.existing.id, item.code);
+    }
 
-      const product = await prisma.product.create({
-        data: {
-          code,
-          areaId: area.id,
-          description,
-          manufacturerDescription,
-          productDetails,
-          price,
-          imageUrl,
-        },
-      });
-
-      saved.push(product);
+    if (item.action === "create" && item.existing) {
+      return NextResponse.json(
+        { error: `Product ${item.code} already exists; choose update or skip.` },
+        { status: 409 }
+      );
+    }
+    if (item.action === "update" && !item.existing) {
+      return NextResponse.json(
+        { error: `Product ${item.code} does not exist yet; choose create.` },
+        { status: 400 }
+      );
     }
+  }
+
+  const created: Product[] = [];
+  const updated: Product[] = [];
+
+  try {
+    // Images are uploaded before the transaction opens; if the transaction
+    // fails the objects are orphaned in storage but the catalog stays consistent.
+    const imageUrls = new Map<number, string>();
+    for (const row of rows) {
+      if (review[row.index].action === "skip") continue;
+      const url = await uploadRowImage(row);
+      if (url) imageUrls.set(row.index, url);
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const row of rows) {
+          const { action, existing } = review[row.index];
+
+          if (action === "update" && existing) {
+            const imageUrl = imageUrls.get(row.index) || row.raw?.imageUrl?.trim();
+            const product = await tx.product.update({
+              where: { id: existing.id },
+              data: {
+                description: row.description,
+                ...(row.manufacturerDescription !== null
+                  ? { manufacturerDescription: row.manufacturerDescription }
+                  : {}),
+                ...(row.price !== null ? { price: row.price } : {}),
+                ...(imageUrl ? { imageUrl } : {}),
+              },
+            });
+
+            if (
+              row.price !== null &&
+              priceChanged(existingByCode.get(row.code)?.price, row.price)
+            ) {
+              await recordPrice(tx, product.id, {
+                source: priceSource,
+                supplier,
+                tier: priceTier,
+                price: row.price,
+              });
+            }
+
+            updated.push(product);
+            continue;
+          }
+
+          if (action !== "create") continue;
+
+          const area =
+            (await tx.area.findFirst({ where: { name: row.areaName } })) ||
+            (await tx.area.create({ data: { name: row.areaName } }));
+
+          const product = await tx.product.create({
+            data: {
+              code: row.code,
+              areaId: area.id,
+              description: row.description,
+              manufacturerDescription: row.manufacturerDescription,
+              productDetails: row.productDetails,
+              price: row.price,
+              imageUrl:
+                imageUrls.get(row.index) ||
+                row.raw?.imageUrl?.trim() ||
+                PLACEHOLDER_IMAGE,
+            },
+          });
+
+          if (row.price !== null) {
+            await recordPrice(tx, product.id, {
+              source: priceSource,
+              supplier,
+              tier: priceTier,
+              price: row.price,
+            });
+          }
+
+          created.push(product);
+        }
+      },
+      { timeout: 60_000 }
+    );
   } catch (error: any) {
+    if (error instanceof ImageValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error saving products:", error);
     return NextResponse.json(
       {
         error: "Failed to save products",
         details: error?.message,
-        savedCount: saved.length,
       },
       { status: 500 }
     );
   }
 
-  return NextResponse.json({ products: saved });
-}
-
+  const skipped = review.filter((item) => item.action === "skip").length;
+  await recordAudit(session, req, {
+    action: "product.import",
+    entity: "product",
+    summary: `${created.length} created, ${updated.length} updated, ${skipped} skipped (${supplier ?? priceSource})`,
+    before: review
+      .filter((item) => item.action === "update")
+      .map((item) => item.existing),
+    after: [...created, ...updated],
+  });
 
+  return NextResponse.json({
+    products: [...created, ...updated],
+    created: created.length,
+    updated: updated.length,
+    skipped,
+  });
+}
@@ -0,0 +1,47 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string; aliasId: string }> };
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id, aliasId } = await params;
+
+  try {
+    const { product, ...alias } = await prisma.productAlias.delete({
+      where: { id: aliasId, productId: id },
+      include: { product: { select: { code: true } } },
+    });
+
+    await recordAudit(session, req, {
+      action: "alias.delete",
+      entity: "alias",
+      entityId: aliasId,
+      summary: `${alias.supplier ? `${alias.supplier} ` : ""}${alias.code} → ${product.code}`,
+      before: alias,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return NextResponse.json({ error: "Alias not found" }, { status: 404 });
+    }
+    console.error("Error deleting alias:", error);
+    return NextResponse.json(
+      { error: "Failed to delete alias", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { normaliseAliasCode } from "@/lib/aliases";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const aliases = await prisma.productAlias.findMany({
+      where: { productId: id },
+      orderBy: [{ supplier: "asc" }, { code: "asc" }],
+    });
+    return NextResponse.json({ aliases });
+  } catch (error: any) {
+    console.error("Error fetching aliases:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch aliases", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add another code for a product. `supplier` names whose code it is; leave
+ * it empty for one of our own codes. A supplier can use a code for one
+ * product only, and an alias can't shadow another product's code.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const code = normaliseAliasCode(body?.code?.toString() ?? "");
+  const supplier = body?.supplier?.toString().trim() ?? "";
+  if (!code) {
+    return NextResponse.json({ error: "Alias code is required" }, { status: 400 });
+  }
+
+  try {
+    const product = await prisma.product.findFirst({
+      where: { code: { equals: code, mode: "insensitive" } },
+      select: { id: true, code: true },
+    });
+    if (product) {
+      return NextResponse.json(
+        {
+          error:
+            product.id === id
+              ? "That is the product's own code"
+              : `Product ${product.code} already uses this code`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { product: owner, ...alias } = await prisma.productAlias.create({
+      data: { productId: id, supplier, code },
+      include: { product: { select: { code: true } } },
+    });
+
+    await recordAudit(session, req, {
+      action: "alias.create",
+      entity: "alias",
+      entityId: alias.id,
+      summary: `${supplier ? `${supplier} ` : ""}${code} → ${owner.code}`,
+      after: alias,
+    });
+
+    return NextResponse.json({ alias }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === "P2003") {
+        return NextResponse.json({ error: "Product not found" }, { status: 404 });
+      }
+      if (error.code === "P2002") {
+        return NextResponse.json(
+          {
+            error: supplier
+              ? `${supplier} code ${code} is already an alias`
+              : `Code ${code} is already an alias`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+    console.error("Error creating alias:", error);
+    return NextResponse.json(
+      { error: "Failed to create alias", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
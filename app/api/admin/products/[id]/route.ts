@@ -0,0 +1,309 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { findAliasOwner } from "@/lib/aliases";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { ImageValidationError, imageKeyBase, storeProductImage } from "@/lib/images";
+import { PRICE_SOURCES, parsePrice, priceChanged, recordPrice } from "@/lib/pricing";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function aliasConflict(code: string, owner: { code: string }) {
+  return NextResponse.json(
+    { error: `Code ${code} is an alias of product ${owner.code}.` },
+    { status: 409 }
+  );
+}
+
+function errorResponse(error: any, fallback: string) {
+  if (error instanceof ImageValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2025") {
+      return NextResponse.json({ error: "Product not found." }, { status: 404 });
+    }
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "Another product already uses this code." },
+        { status: 409 }
+      );
+    }
+  }
+
+  return NextResponse.json(
+    { error: fallback, details: error?.message || "Unknown error" },
+    { status: 500 }
+  );
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const product = await prisma.product.findUniqueOrThrow({
+      where: { id },
+      include: {
+        area: true,
+        prices: { orderBy: { effectiveAt: "desc" } },
+      },
+    });
+
+    return NextResponse.json({ product });
+  } catch (error: any) {
+    console.error("Error fetching product:", error);
+    return errorResponse(error, "Failed to fetch product");
+  }
+}
+
+/**
+ * Full update from the edit form. Accepts the same multipart fields as
+ * POST /api/admin/products; the image is optional and only replaced when a
+ * new file is sent.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const formData = await request.formData();
+
+    const code = formData.get("code")?.toString().trim() || "";
+    const areaId = formData.get("areaId")?.toString() || "";
+    const description = formData.get("description")?.toString().trim() || "";
+    const manufacturerDescription =
+      formData.get("manufacturerDescription")?.toString().trim() || "";
+    const productDetails =
+      formData.get("productDetails")?.toString().trim() || "";
+    const price = parsePrice(formData.get("price"));
+    const image = formData.get("image");
+
+    if (Number.isNaN(price)) {
+      return NextResponse.json({ error: "Price must be a number." }, { status: 400 });
+    }
+
+    if (!code) {
+      return NextResponse.json(
+        { error: "Product code is required." },
+        { status: 400 }
+      );
+    }
+
+    if (!description) {
+      return NextResponse.json(
+        { error: "Description is required." },
+        { status: 400 }
+      );
+    }
+
+    const area = areaId
+      ? await prisma.area.findUnique({ where: { id: areaId } })
+      : null;
+    if (!area) {
+      return NextResponse.json({ error: "Area not found." }, { status: 400 });
+    }
+
+    const aliasOwner = await findAliasOwner(code, id);
+    if (aliasOwner) return aliasConflict(code, aliasOwner);
+
+    let imageUrl: string | undefined;
+    if (image instanceof File && image.size > 0) {
+      const buffer = Buffer.from(await image.arrayBuffer());
+      imageUrl = await storeProductImage(imageKeyBase("products", code), buffer);
+    }
+
+    const { existing, product } = await prisma.$transaction(async (tx) => {
+      const existing = await tx.product.findUniqueOrThrow({ where: { id } });
+
+      const updated = await tx.product.update({
+        where: { id },
+        data: {
+          code,
+          areaId: area.id,
+          description,
+          manufacturerDescription: manufacturerDescription || null,
+          productDetails: productDetails || null,
+          price,
+          ...(imageUrl ? { imageUrl } : {}),
+        },
+        include: { area: true },
+      });
+
+      if (price !== null && priceChanged(existing.price, price)) {
+        await recordPrice(tx, id, {
+          source: PRICE_SOURCES.manual,
+          tier: "retail",
+          price,
+        });
+      }
+
+      return { existing, product: updated };
+    });
+
+    await recordAudit(session, request, {
+      action: "product.update",
+      entity: "product",
+      entityId: id,
+      summary: product.code,
+      before: existing,
+      after: product,
+    });
+
+    return NextResponse.json({ product });
+  } catch (error: any) {
+    console.error("Error updating product:", error);
+    return errorResponse(error, "Failed to update product");
+  }
+}
+
+/**
+ * Partial update used for inline edits and archiving. Only the keys present
+ * in the JSON body are changed.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const data: Prisma.ProductUncheckedUpdateInput = {};
+
+  if (body?.code !== undefined) {
+    const code = body.code?.toString().trim();
+    if (!code) {
+      return NextResponse.json(
+        { error: "Product code is required." },
+        { status: 400 }
+      );
+    }
+    data.code = code;
+  }
+
+  if (body?.description !== undefined) {
+    const description = body.description?.toString().trim();
+    if (!description) {
+      return NextResponse.json(
+        { error: "Description is required." },
+        { status: 400 }
+      );
+    }
+    data.description = description;
+  }
+
+  if (body?.manufacturerDescription !== undefined) {
+    data.manufacturerDescription =
+      body.manufacturerDescription?.toString().trim() || null;
+  }
+
+  if (body?.productDetails !== undefined) {
+    data.productDetails = body.productDetails?.toString().trim() || null;
+  }
+
+  if (body?.price !== undefined) {
+    const price = parsePrice(body.price);
+    if (Number.isNaN(price)) {
+      return NextResponse.json({ error: "Price must be a number." }, { status: 400 });
+    }
+    data.price = price;
+  }
+
+  if (body?.archived !== undefined) {
+    data.archived = Boolean(body.archived);
+  }
+
+  try {
+    if (typeof data.code === "string") {
+      const aliasOwner = await findAliasOwner(data.code, id);
+      if (aliasOwner) return aliasConflict(data.code, aliasOwner);
+    }
+
+    if (body?.areaId !== undefined) {
+      const area = await prisma.area.findUnique({
+        where: { id: body.areaId?.toString() || "" },
+      });
+      if (!area) {
+        return NextResponse.json({ error: "Area not found." }, { status: 400 });
+      }
+      data.areaId = area.id;
+    }
+
+    const { existing, product } = await prisma.$transaction(async (tx) => {
+      const existing = await tx.product.findUniqueOrThrow({ where: { id } });
+
+      const updated = await tx.product.update({
+        where: { id },
+        data,
+        include: { area: true },
+      });
+
+      const nextPrice = typeof data.price === "number" ? data.price : null;
+      if (nextPrice !== null && priceChanged(existing.price, nextPrice)) {
+        await recordPrice(tx, id, {
+          source: PRICE_SOURCES.manual,
+          tier: "retail",
+          price: nextPrice,
+        });
+      }
+
+      return { existing, product: updated };
+    });
+
+    await recordAudit(session, request, {
+      action:
+        data.archived === undefined
+          ? "product.update"
+          : data.archived
+            ? "product.archive"
+            : "product.restore",
+      entity: "product",
+      entityId: id,
+      summary: product.code,
+      before: existing,
+      after: product,
+    });
+
+    return NextResponse.json({ product });
+  } catch (error: any) {
+    console.error("Error updating product:", error);
+    return errorResponse(error, "Failed to update product");
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const product = await prisma.product.delete({ where: { id } });
+    await recordAudit(session, request, {
+      action: "product.delete",
+      entity: "product",
+      entityId: id,
+      summary: product.code,
+      before: product,
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    console.error("Error deleting product:", error);
+    return errorResponse(error, "Failed to delete product");
+  }
+}
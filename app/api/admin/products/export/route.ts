@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  EXPORT_CONTENT_TYPES,
+  parseExportFormat,
+  renderExport,
+} from "@/lib/spreadsheet";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Spreadsheet of the whole catalog, `?format=csv|xlsx`. Optional repeated
+ * `?area=<name>` narrows it to those areas; archived products are left out
+ * unless `?includeArchived=1`.
+ */
+export async function GET(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { searchParams } = new URL(req.url);
+  const format = parseExportFormat(searchParams.get("format"));
+  if (!format) {
+    return NextResponse.json(
+      { error: "Format must be csv or xlsx" },
+      { status: 400 }
+    );
+  }
+  const areas = searchParams.getAll("area").map((a) => a.trim()).filter(Boolean);
+  const includeArchived = searchParams.get("includeArchived") === "1";
+
+  try {
+    const products = await prisma.product.findMany({
+      where: {
+        ...(includeArchived ? {} : { archived: false }),
+        ...(areas.length > 0
+          ? {
+              area: {
+                OR: areas.map((name) => ({
+                  name: { equals: name, mode: "insensitive" as const },
+                })),
+              },
+            }
+          : {}),
+      },
+      orderBy: [
+        { area: { sortOrder: "asc" } },
+        { area: { name: "asc" } },
+        { code: "asc" },
+      ],
+      include: { area: true },
+    });
+
+    let subtotal = 0;
+    const rows = products.map((p: typeof products[number]) => {
+      const price = p.price !== null ? p.price.toNumber() : null;
+      if (price !== null) subtotal += price;
+      return [
+        p.code,
+        p.description,
+        p.manufacturerDescription || "",
+        p.area?.name || "",
+        ...(includeArchived ? [p.archived ? "Yes" : ""] : []),
+        price,
+      ];
+    });
+
+    const file = await renderExport(
+      {
+        title: "Catalog",
+        columns: [
+          { header: "Code", width: 18 },
+          { header: "Description", width: 48 },
+          { header: "Manufacturer description", width: 36 },
+          { header: "Area", width: 16 },
+          ...(includeArchived ? [{ header: "Archived", width: 10 }] : []),
+          { header: "Price", width: 14, money: true },
+        ],
+        rows,
+        subtotal,
+      },
+      format
+    );
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    return new NextResponse(file, {
+      status: 200,
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="Product_Catalog_${stamp}.${format}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error exporting products:", error);
+    return NextResponse.json(
+      { error: "Failed to export products", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,34 @@
 import { NextResponse } from "next/server";
 
+import { findAliasOwner } from "@/lib/aliases";
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { ImageValidationError, imageKeyBase, storeProductImage } from "@/lib/images";
+import {
+  PRICE_SOURCES,
+  latestPriceInclude,
+  parsePrice,
+  recordPrice,
+} from "@/lib/pricing";
 import { prisma } from "@/lib/prisma";
-import { getPublicUrl, uploadToR2 } from "@/lib/r2";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(request: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
   try {
     const { searchParams } = new URL(request.url);
     const q = searchParams.get("q") ?? "";
+    const includeArchived = searchParams.get("includeArchived") === "1";
 
     console.log("Product search query:", q);
 
-    const where =
-      q.trim().length === 0
+    const where = {
+      ...(includeArchived ? {} : { archived: false }),
+      ...(q.trim().length === 0
         ? {}
         : {
             OR: [
@@ -30,14 +44,21 @@ export async function GET(request: Request) {
                 productDetails: { contains: q, mode: "insensitive" as const },
               },
               { area: { name: { contains: q, mode: "insensitive" as const } } },
+              // Supplier SKUs and old codes find the canonical product.
+              {
+                aliases: {
+                  some: { code: { contains: q, mode: "insensitive" as const } },
+                },
+              },
             ],
-          };
+          }),
+    };
 
     const products = await prisma.product.findMany({
       where,
       orderBy: { createdAt: "desc" },
       take: 50,
-      include: { area: true },
+      include: { area: true, ...latestPriceInclude },
     });
 
     console.log("Found products:", products.length);
@@ -55,6 +76,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
   try {
     const formData = await request.formData();
 
@@ -78,6 +102,14 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Area is required." }, { status: 400 });
     }
 
+    const aliasOwner = await findAliasOwner(code);
+    if (aliasOwner) {
+      return NextResponse.json(
+        { error: `Code ${code.trim()} is an alias of product ${aliasOwner.code}.` },
+        { status: 409 }
+      );
+    }
+
     const area = await prisma.area.findUnique({ where: { id: areaId } });
     if (!area) {
       return NextResponse.json({ error: "Area not found." }, { status: 400 });
@@ -90,6 +122,11 @@ export async function POST(request: Request) {
       );
     }
 
+    const price = parsePrice(priceRaw);
+    if (Number.isNaN(price)) {
+      return NextResponse.json({ error: "Price must be a number." }, { status: 400 });
+    }
+
     if (!image) {
       return NextResponse.json(
         { error: "Image is required." },
@@ -98,31 +135,46 @@ export async function POST(request: Request) {
     }
 
     const buffer = Buffer.from(await image.arrayBuffer());
-    const key = `products/${code}-${Date.now()}-${image.name || "image"}`;
-
-    await uploadToR2({
-      key,
-      body: buffer,
-      contentType: image.type || "application/octet-stream",
+    const imageUrl = await storeProductImage(imageKeyBase("products", code), buffer);
+
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          code,
+          areaId: area.id,
+          description,
+          manufacturerDescription: manufacturerDescription || null,
+          productDetails: productDetails || null,
+          price,
+          imageUrl,
+        },
+        include: { area: true },
+      });
+
+      if (price !== null) {
+        await recordPrice(tx, created.id, {
+          source: PRICE_SOURCES.manual,
+          tier: "retail",
+          price,
+        });
+      }
+
+      return created;
     });
 
-    const price = priceRaw ? Number(priceRaw) : null;
-
-    const product = await prisma.product.create({
-      data: {
-        code,
-        areaId: area.id,
-        description,
-        manufacturerDescription: manufacturerDescription || null,
-        productDetails: productDetails || null,
-        price: price !== null && !Number.isNaN(price) ? price : null,
-        imageUrl: getPublicUrl(key),
-      },
-      include: { area: true },
+    await recordAudit(session, request, {
+      action: "product.create",
+      entity: "product",
+      entityId: product.id,
+      summary: product.code,
+      after: product,
     });
 
     return NextResponse.json({ product });
   } catch (error: any) {
+    if (error instanceof ImageValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error creating product:", error);
     return NextResponse.json(
       {
@@ -1,6 +1,11 @@
 import { NextResponse } from "next/server";
 
+import { requireApiRole } from "@/lib/auth";
+
 export async function GET(request: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
   try {
     const { searchParams } = new URL(request.url);
     const imageUrl = searchParams.get("url");
@@ -12,19 +17,19 @@ export async function GET(request: Request) {
       );
     }
 
-    // Fetch the image from R2
-    const response = await fetch(imageUrl);
+    // Fetch the image from storage
+    const upstream = await fetch(imageUrl);
 
-    if (!response.ok) {
+    if (!upstream.ok) {
       return NextResponse.json(
         { error: "Failed to fetch image" },
-        { status: response.status }
+        { status: upstream.status }
       );
     }
 
     // Get the image as an array buffer
-    const imageBuffer = await response.arrayBuffer();
-    const contentType = response.headers.get("content-type") || "image/jpeg";
+    const imageBuffer = await upstream.arrayBuffer();
+    const contentType = upstream.headers.get("content-type") || "image/jpeg";
 
     // Convert to base64
     const base64 = Buffer.from(imageBuffer).toString("base64");
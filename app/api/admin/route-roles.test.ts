@@ -0,0 +1,167 @@
+import fs from "node:fs";
+import path from "node:path";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { signPayload } from "@/lib/session-token";
+import { ROLES, type Role } from "@/lib/users";
+
+// The cookie the handler sees and the role its session row has.
+const current = vi.hoisted(() => ({ token: undefined as string | undefined, role: "viewer" }));
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (current.token ? { name, value: current.token } : undefined),
+  }),
+  headers: async () => new Headers(),
+}));
+
+// Only the session lookup is answered; a handler that gets past its role
+// check fails loudly on anything else.
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    session: {
+      findUnique: async () => ({
+        id: "s1",
+        userId: "u1",
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        lastSeenAt: new Date(),
+        user: { username: "sam", role: current.role, active: true },
+      }),
+    },
+  },
+}));
+
+/**
+ * The role each admin API handler needs. "public" handlers check credentials
+ * of their own (password, challenge, reset token). A new route has to be
+ * added here before this test passes.
+ */
+const ROUTE_ROLES: Record<string, Record<string, Role | "public">> = {
+  "account/two-factor": { GET: "viewer", POST: "viewer", PUT: "viewer", DELETE: "viewer" },
+  "account/two-factor/recovery-codes": { POST: "viewer" },
+  areas: { GET: "viewer", POST: "estimator" },
+  "areas/[id]": { PATCH: "estimator" },
+  "areas/[id]/merge": { POST: "estimator" },
+  "areas/reorder": { POST: "estimator" },
+  "bwa/parse-pdf": { POST: "estimator" },
+  import: { POST: "estimator" },
+  "import/parse": { POST: "estimator" },
+  login: { POST: "public" },
+  "login/verify": { POST: "public" },
+  logout: { POST: "public" },
+  password: { POST: "public" },
+  "product-selection/export": { POST: "viewer" },
+  "product-selection/generate": { POST: "viewer" },
+  "product-selection/parse-pdf": { POST: "viewer" },
+  "product-selection/save": { POST: "estimator" },
+  products: { GET: "viewer", POST: "estimator" },
+  "products/[id]": { GET: "viewer", PUT: "estimator", PATCH: "estimator", DELETE: "estimator" },
+  "products/[id]/aliases": { GET: "viewer", POST: "estimator" },
+  "products/[id]/aliases/[aliasId]": { DELETE: "estimator" },
+  "products/export": { GET: "viewer" },
+  // OPTIONS is the CORS preflight; it returns headers only.
+  "proxy-image": { GET: "viewer", OPTIONS: "public" },
+  selections: { GET: "viewer", POST: "estimator" },
+  "selections/[id]": { GET: "viewer", PUT: "estimator", DELETE: "estimator" },
+  "selections/[id]/duplicate": { POST: "estimator" },
+  "selections/[id]/revisions/[number]": { GET: "viewer" },
+  "selections/[id]/share": { POST: "estimator", DELETE: "estimator" },
+  sessions: { GET: "viewer" },
+  "sessions/[id]": { DELETE: "viewer" },
+  suppliers: { GET: "viewer" },
+  users: { GET: "owner", POST: "owner" },
+  "users/[id]": { PATCH: "owner" },
+  "users/[id]/reset": { POST: "owner" },
+};
+
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+type Handler = (request: Request, context: { params: Promise<object> }) => Promise<Response>;
+
+function routeFiles(dir = __dirname): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return routeFiles(full);
+    return entry.name === "route.ts" ? [path.relative(__dirname, dir).split(path.sep).join("/")] : [];
+  });
+}
+
+const routes = routeFiles().sort();
+
+async function loadHandlers(route: string) {
+  const module = await import(path.join(__dirname, route, "route.ts"));
+  return Object.fromEntries(
+    METHODS.filter((method) => typeof module[method] === "function").map((method) => [
+      method,
+      module[method] as Handler,
+    ])
+  );
+}
+
+function call(handler: Handler, route: string, method: string) {
+  const request = new Request(`http://localhost/api/admin/${route}`, {
+    method,
+    headers: { "content-type": "application/json" },
+    body: method === "GET" || method === "OPTIONS" ? undefined : "{}",
+  });
+  // Every dynamic segment gets the same sample value.
+  const params = Object.fromEntries(
+    Array.from(route.matchAll(/\[(\w+)\]/g), ([, name]) => [name, "1"])
+  );
+  return handler(request, { params: Promise.resolve(params) });
+}
+
+const signIn = (role: Role) => {
+  current.role = role;
+  current.token = signPayload({
+    sid: "s1",
+    userId: "u1",
+    username: "sam",
+    role,
+    exp: Date.now() + 60_000,
+  });
+};
+
+beforeAll(() => {
+  vi.stubEnv("ADMIN_SESSION_SECRET", "route-roles-test-secret-0123456789");
+});
+
+beforeEach(() => {
+  current.token = undefined;
+  current.role = "viewer";
+});
+
+describe("admin API role checks", () => {
+  it("lists every route", () => {
+    expect(Object.keys(ROUTE_ROLES).sort()).toEqual(routes);
+  });
+
+  it.each(routes)("lists every handler of %s", async (route) => {
+    const handlers = await loadHandlers(route);
+    expect(Object.keys(handlers).sort()).toEqual(Object.keys(ROUTE_ROLES[route] ?? {}).sort());
+  });
+
+  const guarded = Object.entries(ROUTE_ROLES).flatMap(([route, methods]) =>
+    Object.entries(methods)
+      .filter((entry): entry is [string, Role] => entry[1] !== "public")
+      .map(([method, role]) => ({ route, method, role }))
+  );
+
+  it.each(guarded)("$method $route refuses anonymous calls", async ({ route, method }) => {
+    const handler = (await loadHandlers(route))[method];
+    const response = await call(handler, route, method);
+    expect(response.status).toBe(401);
+  });
+
+  it.each(guarded.filter(({ role }) => role !== "viewer"))(
+    "$method $route needs the $role role",
+    async ({ route, method, role }) => {
+      const handler = (await loadHandlers(route))[method];
+      signIn(ROLES[ROLES.indexOf(role) - 1]);
+      const response = await call(handler, route, method);
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: `This action needs the ${role} role` });
+    }
+  );
+});
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { selectionInclude } from "@/lib/selections";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Copy a selection and its items for a similar job. The copy starts with no
+ * revisions, share link or client approvals; an optional `address` in the
+ * body replaces the original one.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const source = await prisma.selection.findUnique({
+      where: { id },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+
+    if (!source) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+
+    const address =
+      body?.address?.toString().trim() || `${source.address} (copy)`;
+
+    const selection = await prisma.selection.create({
+      data: {
+        address,
+        date: source.date,
+        contactName: source.contactName,
+        company: source.company,
+        phoneNumber: source.phoneNumber,
+        email: source.email,
+        items: {
+          createMany: {
+            // Client decisions belong to the original job and are not copied.
+            data: source.items.map(
+              ({
+                id: _id,
+                selectionId: _sid,
+                approvalStatus: _status,
+                clientComment: _comment,
+                reviewedAt: _reviewed,
+                ...item
+              }) => item
+            ),
+          },
+        },
+      },
+      include: selectionInclude,
+    });
+
+    return NextResponse.json({ selection });
+  } catch (error: any) {
+    console.error("Error duplicating selection:", error);
+    return NextResponse.json(
+      { error: "Failed to duplicate selection", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
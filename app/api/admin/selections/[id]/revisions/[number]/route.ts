@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string; number: string }> };
+
+/** Download the document stored for a given revision of a selection. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { id, number } = await params;
+  const revisionNumber = Number.parseInt(number, 10);
+  if (!Number.isInteger(revisionNumber)) {
+    return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+  }
+
+  try {
+    const revision = await prisma.selectionRevision.findUnique({
+      where: {
+        selectionId_number: { selectionId: id, number: revisionNumber },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    const { body } = await getStorage().get(revision.fileKey);
+
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        "Content-Type": revision.contentType,
+        "Content-Disposition": `attachment; filename="${revision.fileName}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error downloading revision:", error);
+    return NextResponse.json(
+      { error: "Failed to download revision", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
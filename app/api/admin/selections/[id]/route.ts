@@ -0,0 +1,157 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseSelectionBody, selectionInclude } from "@/lib/selections";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2025"
+  );
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const selection = await prisma.selection.findUnique({
+      where: { id },
+      include: selectionInclude,
+    });
+
+    if (!selection) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ selection });
+  } catch (error: any) {
+    console.error("Error fetching selection:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch selection", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+class SignedOffError extends Error {}
+
+/**
+ * Replace the selection details and its full item list. Items are rewritten
+ * rather than diffed; revisions keep their own snapshots so nothing is lost,
+ * and client approvals carry over to items with the same code and area.
+ * A signed-off selection is refused: the signature covers the items the
+ * client saw, so changes go on a duplicate.
+ */
+export async function PUT(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseSelectionBody(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const selection = await prisma.$transaction(async (tx) => {
+      const current = await tx.selection.findUniqueOrThrow({
+        where: { id },
+        select: { signedOffAt: true },
+      });
+      if (current.signedOffAt) throw new SignedOffError();
+
+      const previous = await tx.selectionItem.findMany({
+        where: { selectionId: id },
+        select: {
+          code: true,
+          areaName: true,
+          approvalStatus: true,
+          clientComment: true,
+          reviewedAt: true,
+        },
+      });
+      const decisions = new Map(
+        previous.map(({ code, areaName, ...decision }) => [
+          `${code}|${areaName}`,
+          decision,
+        ])
+      );
+
+      await tx.selectionItem.deleteMany({ where: { selectionId: id } });
+      return tx.selection.update({
+        where: { id },
+        data: {
+          ...parsed.data,
+          items: {
+            createMany: {
+              data: parsed.items.map((item) => ({
+                ...item,
+                ...decisions.get(`${item.code}|${item.areaName}`),
+              })),
+            },
+          },
+        },
+        include: selectionInclude,
+      });
+    });
+
+    return NextResponse.json({ selection });
+  } catch (error: any) {
+    if (error instanceof SignedOffError) {
+      return NextResponse.json(
+        {
+          error:
+            "This selection has been signed off by the client; duplicate it to make changes",
+        },
+        { status: 409 }
+      );
+    }
+    if (notFound(error)) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+    console.error("Error updating selection:", error);
+    return NextResponse.json(
+      { error: "Failed to update selection", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    await prisma.selection.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    if (notFound(error)) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+    console.error("Error deleting selection:", error);
+    return NextResponse.json(
+      { error: "Failed to delete selection", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { createShareToken } from "@/lib/selections";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function shareUrl(request: Request, token: string) {
+  return new URL(`/selection/${token}`, request.url).toString();
+}
+
+/** Create (or return the existing) public approval link for a selection. */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const selection = await prisma.selection.findUnique({
+      where: { id },
+      select: { shareToken: true },
+    });
+
+    if (!selection) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+
+    const shareToken =
+      selection.shareToken ??
+      (
+        await prisma.selection.update({
+          where: { id },
+          data: { shareToken: createShareToken() },
+          select: { shareToken: true },
+        })
+      ).shareToken!;
+
+    return NextResponse.json({ shareToken, url: shareUrl(request, shareToken) });
+  } catch (error: any) {
+    console.error("Error sharing selection:", error);
+    return NextResponse.json(
+      { error: "Failed to share selection", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/** Revoke the public link. Client decisions already made are kept. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    await prisma.selection.update({
+      where: { id },
+      data: { shareToken: null },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2025"
+    ) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+    console.error("Error revoking selection link:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke link", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { parseSelectionBody, selectionInclude } from "@/lib/selections";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim() ?? "";
+
+  try {
+    const selections = await prisma.selection.findMany({
+      where: q
+        ? {
+            OR: [
+              { address: { contains: q, mode: "insensitive" } },
+              { contactName: { contains: q, mode: "insensitive" } },
+              { company: { contains: q, mode: "insensitive" } },
+            ],
+          }
+        : {},
+      orderBy: { updatedAt: "desc" },
+      take: 50,
+      omit: { signature: true },
+      include: {
+        _count: { select: { items: true, revisions: true } },
+        items: { select: { approvalStatus: true } },
+      },
+    });
+
+    return NextResponse.json({
+      selections: selections.map(({ items, ...selection }) => ({
+        ...selection,
+        approval: {
+          approved: items.filter((i) => i.approvalStatus === "approved").length,
+          rejected: items.filter((i) => i.approvalStatus === "rejected").length,
+          pending: items.filter((i) => i.approvalStatus === "pending").length,
+        },
+      })),
+    });
+  } catch (error: any) {
+    console.error("Error fetching selections:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch selections", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("estimator");
+  if (!session) return response;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseSelectionBody(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const selection = await prisma.selection.create({
+      data: {
+        ...parsed.data,
+        items: { createMany: { data: parsed.items } },
+      },
+      include: selectionInclude,
+    });
+
+    return NextResponse.json({ selection });
+  } catch (error: any) {
+    console.error("Error creating selection:", error);
+    return NextResponse.json(
+      { error: "Failed to create selection", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
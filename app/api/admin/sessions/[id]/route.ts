@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole, revokeSessions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { hasRole } from "@/lib/users";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Sign out one session. Users can revoke their own; owners anyone's. */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const target = await prisma.session.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+    if (!target || (target.userId !== session.userId && !hasRole(session.role, "owner"))) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    await revokeSessions({ id });
+    return NextResponse.json({ ok: true, current: id === session.sid });
+  } catch (error: any) {
+    console.error("Error revoking session:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke session", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { listActiveSessions, toSessionRow } from "@/lib/sessions";
+import { hasRole } from "@/lib/users";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** The signed-in user's active sessions; owners can ask for everyone's with `?all=1`. */
+export async function GET(req: Request) {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  const all =
+    new URL(req.url).searchParams.get("all") === "1" && hasRole(session.role, "owner");
+
+  try {
+    const sessions = await listActiveSessions(all ? undefined : session.userId);
+    return NextResponse.json({
+      sessions: sessions.map((s) => toSessionRow(s, session.sid)),
+    });
+  } catch (error: any) {
+    console.error("Error fetching sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sessions", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
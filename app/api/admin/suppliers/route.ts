@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+
+import { requireApiRole } from "@/lib/auth";
+import { SUPPLIER_PROFILES } from "@/lib/supplier-parsers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Supplier PDF profiles, for the "Supplier" pickers on the upload screens. */
+export async function GET() {
+  const { session, response } = await requireApiRole("viewer");
+  if (!session) return response;
+
+  return NextResponse.json({
+    suppliers: SUPPLIER_PROFILES.map((p) => ({ id: p.id, name: p.name })),
+  });
+}
@@ -0,0 +1,70 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  createUserToken,
+  passwordLinkUrl,
+  publicUserSelect,
+  toPublicUser,
+} from "@/lib/users";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Issue a password reset link, replacing any outstanding invite or reset
+ * link. The current password keeps working until the link is used.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("owner");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  try {
+    const existing = await prisma.user.findUnique({
+      where: { id },
+      select: { passwordHash: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // A user who never accepted their invite gets a fresh invite instead.
+    const { token, data } = createUserToken(existing.passwordHash ? "reset" : "invite");
+    const user = toPublicUser(
+      await prisma.user.update({
+        where: { id },
+        data,
+        select: publicUserSelect,
+      })
+    );
+
+    await recordAudit(session, req, {
+      action: user.tokenPurpose === "invite" ? "user.invite" : "user.reset",
+      entity: "user",
+      entityId: id,
+      summary: user.username,
+      after: user,
+    });
+
+    return NextResponse.json({
+      user,
+      url: passwordLinkUrl(req, token),
+    });
+  } catch (error: any) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    console.error("Error creating reset link:", error);
+    return NextResponse.json(
+      { error: "Failed to create reset link", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { disabledTwoFactor } from "@/lib/two-factor";
+import { isRole, publicUserSelect, toPublicUser } from "@/lib/users";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+class LastOwnerError extends Error {}
+
+/**
+ * Change a user's role or active flag, or turn off their two-factor sign-in
+ * (`twoFactor: false`) when they've lost their phone and recovery codes.
+ * Deactivated users can't sign in and their open sessions stop working. The last active owner can't be demoted
+ * or deactivated, so there is always someone who can manage users.
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { session, response } = await requireApiRole("owner");
+  if (!session) return response;
+
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const data: Prisma.UserUpdateInput = {};
+
+  if (body?.role !== undefined) {
+    if (!isRole(body.role)) {
+      return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+    }
+    data.role = body.role;
+  }
+  if (body?.active !== undefined) {
+    data.active = Boolean(body.active);
+  }
+  if (body?.twoFactor === false) {
+    Object.assign(data, disabledTwoFactor);
+  }
+
+  try {
+    const { before, after } = await prisma.$transaction(async (tx) => {
+      const existing = await tx.user.findUniqueOrThrow({
+        where: { id },
+        select: publicUserSelect,
+      });
+      const updated = await tx.user.update({
+        where: { id },
+        data,
+        select: publicUserSelect,
+      });
+      const owners = await tx.user.count({ where: { role: "owner", active: true } });
+      if (owners === 0) {
+        throw new LastOwnerError();
+      }
+      return { before: toPublicUser(existing), after: toPublicUser(updated) };
+    });
+
+    const changes = [
+      before.role !== after.role && `role ${before.role} → ${after.role}`,
+      before.active !== after.active && (after.active ? "reactivated" : "deactivated"),
+      before.twoFactor && !after.twoFactor && "two-factor turned off",
+    ].filter(Boolean);
+    await recordAudit(session, req, {
+      action: "user.update",
+      entity: "user",
+      entityId: id,
+      summary: `${after.username}${changes.length ? `: ${changes.join(", ")}` : ""}`,
+      before,
+      after,
+    });
+
+    return NextResponse.json({ user: after });
+  } catch (error: any) {
+    if (error instanceof LastOwnerError) {
+      return NextResponse.json(
+        { error: "At least one active owner is required" },
+        { status: 409 }
+      );
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
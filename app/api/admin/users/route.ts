@@ -0,0 +1,94 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/audit";
+import { requireApiRole } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  createUserToken,
+  isRole,
+  passwordLinkUrl,
+  publicUserSelect,
+  toPublicUser,
+} from "@/lib/users";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const { session, response } = await requireApiRole("owner");
+  if (!session) return response;
+
+  try {
+    const users = await prisma.user.findMany({
+      orderBy: { username: "asc" },
+      select: publicUserSelect,
+    });
+    return NextResponse.json({ users: users.map(toPublicUser) });
+  } catch (error: any) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Invite a user. The account has no password until the invite link is
+ * opened; the link is returned for the owner to pass on.
+ */
+export async function POST(req: Request) {
+  const { session, response } = await requireApiRole("owner");
+  if (!session) return response;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const username = body?.username?.toString().trim();
+  if (!username) {
+    return NextResponse.json({ error: "Username is required" }, { status: 400 });
+  }
+  const role = body?.role ?? "viewer";
+  if (!isRole(role)) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
+  const email = body?.email?.toString().trim() || null;
+
+  const { token, data } = createUserToken("invite");
+
+  try {
+    const user = toPublicUser(
+      await prisma.user.create({
+        data: { username, email, role, ...data },
+        select: publicUserSelect,
+      })
+    );
+
+    await recordAudit(session, req, {
+      action: "user.invite",
+      entity: "user",
+      entityId: user.id,
+      summary: `${user.username} (${user.role})`,
+      after: user,
+    });
+
+    return NextResponse.json({
+      user,
+      url: passwordLinkUrl(req, token),
+    });
+  } catch (error: any) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "Username already exists" }, { status: 409 });
+    }
+    console.error("Error inviting user:", error);
+    return NextResponse.json(
+      { error: "Failed to invite user", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { areaLabel, areaOrderBy } from "@/lib/areas";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET,OPTIONS",
+};
+
+/**
+ * Read-only list of active areas in document order, for the standalone
+ * selection webapp. Only names and labels are exposed.
+ */
+export async function GET() {
+  try {
+    const areas = await prisma.area.findMany({
+      where: { active: true },
+      orderBy: areaOrderBy,
+      select: { name: true, displayLabel: true },
+    });
+
+    return NextResponse.json(
+      { areas: areas.map((a) => ({ name: a.name, label: areaLabel(a) })) },
+      { headers: corsHeaders }
+    );
+  } catch (error: any) {
+    console.error("Error fetching areas:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch areas", details: error?.message },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
@@ -1,38 +1,16 @@
 import { Resend } from 'resend';
 import { NextResponse } from 'next/server';
 
+import { clientIp, createRateLimiter } from '@/lib/rate-limit';
+
 // Initialize Resend only when needed to avoid build-time errors
 let resend;
 
-// Rate limiting storage (in production, use Redis or database)
-const rateLimitMap = new Map();
-
-// Rate limiting function
-function isRateLimited(ip) {
-  const now = Date.now();
-  const windowMs = 15 * 60 * 1000; // 15 minutes
-  const maxRequests = 10; // Max 10 feedback requests per 15 minutes
-
-  if (!rateLimitMap.has(ip)) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + windowMs });
-    return false;
-  }
-
-  const record = rateLimitMap.get(ip);
-  
-  if (now > record.resetTime) {
-    // Reset the window
-    rateLimitMap.set(ip, { count: 1, resetTime: now + windowMs });
-    return false;
-  }
-
-  if (record.count >= maxRequests) {
-    return true;
-  }
-
-  record.count++;
-  return false;
-}
+// Rate limiting (shared store when RATE_LIMIT_STORE=database)
+const limiter = createRateLimiter('feedback', {
+  limit: 10, // Max 10 feedback requests per 15 minutes
+  windowMs: 15 * 60 * 1000,
+});
 
 // Input validation and sanitization
 function validateAndSanitize(data) {
@@ -129,12 +107,9 @@ export async function POST(request) {
       resend = new Resend(process.env.FORM_API);
     }
 
-    // Get client IP for rate limiting
-    const forwarded = request.headers.get('x-forwarded-for');
-    const ip = forwarded ? forwarded.split(',')[0] : request.headers.get('x-real-ip') || 'unknown';
-
-    // Check rate limiting
-    if (isRateLimited(ip)) {
+    // Check rate limiting by client IP
+    const { limited } = await limiter.consume(clientIp(request));
+    if (limited) {
       return NextResponse.json(
         { error: 'Too many requests. Please try again later.' },
         { status: 429 }
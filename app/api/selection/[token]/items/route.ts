@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { APPROVAL_STATUSES, type ApprovalStatus } from "@/lib/selections";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Public endpoint behind the share link: record the client's decision and
+ * comment for one item. Locked once the selection has been signed off.
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { token } = await params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const itemId = body?.itemId?.toString();
+  const status = body?.status as ApprovalStatus;
+  const comment = body?.comment?.toString().trim() ?? "";
+
+  if (!itemId) {
+    return NextResponse.json({ error: "Item is required" }, { status: 400 });
+  }
+  if (!APPROVAL_STATUSES.includes(status)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+  if (comment.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json(
+      { error: `Comments must be ${MAX_COMMENT_LENGTH} characters or less` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const selection = await prisma.selection.findUnique({
+      where: { shareToken: token },
+      select: { id: true, signedOffAt: true },
+    });
+
+    if (!selection) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+    if (selection.signedOffAt) {
+      return NextResponse.json(
+        { error: "This selection has already been signed off" },
+        { status: 409 }
+      );
+    }
+
+    // The sign-off check is repeated in the update itself, so a decision
+    // racing a sign-off makes it match nothing.
+    const result = await prisma.selectionItem.updateMany({
+      where: {
+        id: itemId,
+        selection: { id: selection.id, shareToken: token, signedOffAt: null },
+      },
+      data: {
+        approvalStatus: status,
+        clientComment: comment || null,
+        reviewedAt: status === "pending" ? null : new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      const item = await prisma.selectionItem.findFirst({
+        where: { id: itemId, selectionId: selection.id },
+        select: { id: true },
+      });
+      return item
+        ? NextResponse.json(
+            { error: "This selection changed while you were deciding; please reload" },
+            { status: 409 }
+          )
+        : NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    console.error("Error recording item decision:", error);
+    return NextResponse.json(
+      { error: "Failed to save your decision" },
+      { status: 500 }
+    );
+  }
+}
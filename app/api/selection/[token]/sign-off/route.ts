@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// A drawn signature as a PNG data URL; generous for a small canvas.
+const MAX_SIGNATURE_LENGTH = 300_000;
+
+/**
+ * Public endpoint behind the share link: the client signs off the selection
+ * once every item has been approved or rejected.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { token } = await params;
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const name = body?.name?.toString().trim() ?? "";
+  const signature = body?.signature?.toString() ?? "";
+  const note = body?.note?.toString().trim() ?? "";
+
+  if (!name || name.length > 100) {
+    return NextResponse.json(
+      { error: "Please enter your full name (100 characters or less)" },
+      { status: 400 }
+    );
+  }
+  if (
+    !signature.startsWith("data:image/png;base64,") ||
+    signature.length > MAX_SIGNATURE_LENGTH
+  ) {
+    return NextResponse.json({ error: "Please sign in the box" }, { status: 400 });
+  }
+  if (note.length > 2000) {
+    return NextResponse.json(
+      { error: "Notes must be 2000 characters or less" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const selection = await prisma.selection.findUnique({
+      where: { shareToken: token },
+      select: {
+        id: true,
+        signedOffAt: true,
+        _count: { select: { items: { where: { approvalStatus: "pending" } } } },
+      },
+    });
+
+    if (!selection) {
+      return NextResponse.json({ error: "Selection not found" }, { status: 404 });
+    }
+    if (selection.signedOffAt) {
+      return NextResponse.json(
+        { error: "This selection has already been signed off" },
+        { status: 409 }
+      );
+    }
+    if (selection._count.items > 0) {
+      return NextResponse.json(
+        { error: "Please approve or reject every item before signing off" },
+        { status: 400 }
+      );
+    }
+
+    // The checks above are repeated in the update itself, so a second
+    // sign-off or an item reopened in the meantime makes it match nothing.
+    const signedOffAt = new Date();
+    const { count } = await prisma.selection.updateMany({
+      where: {
+        id: selection.id,
+        signedOffAt: null,
+        items: { none: { approvalStatus: "pending" } },
+      },
+      data: {
+        signedOffAt,
+        signedOffBy: name,
+        signature,
+        clientNote: note || null,
+      },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "This selection changed while you were signing; please reload" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ ok: true, signedOffAt });
+  } catch (error: any) {
+    console.error("Error signing off selection:", error);
+    return NextResponse.json({ error: "Failed to sign off" }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+
+import { getStorage, LocalStorage, StorageNotFoundError } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ key: string[] }> };
+
+/**
+ * Serve files for the local-disk storage driver. Public objects are open to
+ * anyone; private ones need a link from signedUrl. Other drivers serve their
+ * own URLs, so this is a 404 for them.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const storage = getStorage();
+  if (!(storage instanceof LocalStorage)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { key: parts } = await params;
+  const key = parts.join("/");
+  if (!LocalStorage.isValidKey(key)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const object = await storage.read(key);
+    if (
+      !object.isPublic &&
+      !(await storage.verifySignedUrl(
+        key,
+        searchParams.get("expires"),
+        searchParams.get("signature")
+      ))
+    ) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(object.body), {
+      status: 200,
+      headers: {
+        "Content-Type": object.contentType,
+        "Cache-Control": object.isPublic ? "public, max-age=3600" : "private, no-store",
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof StorageNotFoundError) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    console.error("Error serving stored file:", error);
+    return NextResponse.json(
+      { error: "Failed to read file", details: error?.message },
+      { status: 500 }
+    );
+  }
+}
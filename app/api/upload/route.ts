@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
-import { put } from "@vercel/blob";
 
-export const runtime = "edge"; // Faster uploads on Vercel edge runtime
+import { storePublicFile } from "@/lib/storage";
+
+export const runtime = "nodejs"; // the local-disk storage driver needs fs
 
 export async function POST(request: Request) {
   try {
@@ -34,12 +35,8 @@ export async function POST(request: Request) {
     const ext = file.name.split(".").pop()?.toLowerCase() || "bin";
     const key = `uploads/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
 
-    // Upload to Vercel Blob with public read access
-    const { url } = await put(key, file, {
-      access: "public",
-      contentType: file.type,
-      addRandomSuffix: false,
-    });
+    // Upload with public read access
+    const url = await storePublicFile(key, Buffer.from(await file.arrayBuffer()), file.type);
 
     return NextResponse.json({ url });
   } catch (err) {
@@ -47,5 +44,3 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Upload failed" }, { status: 500 });
   }
 }
-
-
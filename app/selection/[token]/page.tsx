@@ -0,0 +1,75 @@
+import { notFound } from "next/navigation";
+
+import { getAreaOrder, groupByArea } from "@/lib/areas";
+import { prisma } from "@/lib/prisma";
+import SelectionApproval from "./selection-approval";
+
+export const dynamic = "force-dynamic";
+
+export default async function SelectionApprovalPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  const selection = await prisma.selection.findUnique({
+    where: { shareToken: token },
+    include: { items: { orderBy: { position: "asc" } } },
+  });
+
+  if (!selection) notFound();
+
+  const areas = await getAreaOrder();
+  const groups = groupByArea(selection.items, (item) => item.areaName, areas).map((group) => ({
+    category: group.label,
+    items: group.items.map((item) => ({
+      id: item.id,
+      code: item.code,
+      description: item.description,
+      manufacturerDescription: item.manufacturerDescription,
+      productDetails: item.productDetails,
+      price: item.price,
+      imageUrl: item.imageUrl,
+      quantity: item.quantity,
+      notes: item.notes,
+      approvalStatus: item.approvalStatus,
+      clientComment: item.clientComment || "",
+    })),
+  }));
+
+  return (
+    <main className="min-h-screen bg-slate-50 pt-28 pb-16 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-1">
+          <p className="text-sm text-slate-500">Product selection for</p>
+          <h1 className="text-2xl font-semibold text-slate-900">
+            {selection.address}
+          </h1>
+          {(selection.contactName || selection.company) && (
+            <p className="text-sm text-slate-600">
+              {[selection.contactName, selection.company].filter(Boolean).join(" · ")}
+            </p>
+          )}
+          <p className="text-sm text-slate-500 pt-2">
+            Please approve or reject each item, add any comments, then sign off
+            at the bottom of the page.
+          </p>
+        </div>
+
+        <SelectionApproval
+          token={token}
+          groups={groups}
+          signedOff={
+            selection.signedOffAt
+              ? {
+                  at: selection.signedOffAt.toISOString(),
+                  by: selection.signedOffBy || "",
+                }
+              : null
+          }
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,328 @@
+"use client";
+
+import { useRef, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+
+import { Button } from "@/components/ui/button";
+import { imageVariantUrl } from "@/lib/image-variants";
+
+type ApprovalStatus = "pending" | "approved" | "rejected";
+
+type Item = {
+  id: string;
+  code: string;
+  description: string;
+  manufacturerDescription: string | null;
+  productDetails: string | null;
+  price: string | null;
+  imageUrl: string | null;
+  quantity: string;
+  notes: string;
+  approvalStatus: string;
+  clientComment: string;
+};
+
+type Group = { category: string; items: Item[] };
+
+type Props = {
+  token: string;
+  groups: Group[];
+  signedOff: { at: string; by: string } | null;
+};
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: "Awaiting decision",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const STATUS_STYLES: Record<ApprovalStatus, string> = {
+  pending: "bg-slate-100 text-slate-600",
+  approved: "bg-emerald-100 text-emerald-700",
+  rejected: "bg-red-100 text-red-700",
+};
+
+export default function SelectionApproval({ token, groups, signedOff }: Props) {
+  const [items, setItems] = useState<Record<string, Item>>(() =>
+    Object.fromEntries(groups.flatMap((g) => g.items).map((i) => [i.id, i]))
+  );
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [signOff, setSignOff] = useState(signedOff);
+  const [name, setName] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [hasSignature, setHasSignature] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const locked = signOff !== null;
+  const pendingCount = Object.values(items).filter(
+    (i) => i.approvalStatus === "pending"
+  ).length;
+
+  const saveDecision = async (
+    id: string,
+    status: ApprovalStatus,
+    comment: string
+  ) => {
+    setSavingId(id);
+    try {
+      const res = await fetch(`/api/selection/${token}/items`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId: id, status, comment }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to save your decision");
+        return;
+      }
+      setItems((prev) => ({
+        ...prev,
+        [id]: { ...prev[id], approvalStatus: status, clientComment: comment },
+      }));
+    } catch {
+      toast.error("Network error. Please try again.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx || locked) return;
+    drawing.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = pointFor(e);
+    ctx.lineWidth = 2;
+    ctx.lineCap = "round";
+    ctx.strokeStyle = "#0f172a";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasSignature(true);
+  };
+
+  const clearSignature = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  };
+
+  const handleSignOff = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter your full name");
+      return;
+    }
+    if (!hasSignature || !canvasRef.current) {
+      toast.error("Please sign in the box");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/selection/${token}/sign-off`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          note: note.trim(),
+          signature: canvasRef.current.toDataURL("image/png"),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data?.error || "Failed to sign off");
+        return;
+      }
+      setSignOff({ at: data.signedOffAt, by: name.trim() });
+      toast.success("Thank you, your selection has been signed off.");
+    } catch {
+      toast.error("Network error. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Toaster />
+      {groups.map((group) => (
+        <section
+          key={group.category}
+          className="bg-white border border-slate-200 rounded-lg shadow-sm"
+        >
+          <h2 className="px-6 py-3 border-b border-slate-100 text-sm font-semibold uppercase tracking-wide text-slate-700">
+            {group.category}
+          </h2>
+          <ul className="divide-y divide-slate-100">
+            {group.items.map(({ id }) => {
+              const item = items[id];
+              const status = item.approvalStatus as ApprovalStatus;
+              return (
+                <li key={id} className="p-6 flex flex-col sm:flex-row gap-4">
+                  {item.imageUrl ? (
+                    <a
+                      href={imageVariantUrl(item.imageUrl, "large")}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="shrink-0"
+                    >
+                      <img
+                        src={imageVariantUrl(item.imageUrl, "medium")}
+                        alt={item.description}
+                        loading="lazy"
+                        className="h-28 w-28 object-cover rounded border border-slate-200"
+                      />
+                    </a>
+                  ) : (
+                    <div className="h-28 w-28 bg-slate-100 border border-slate-200 rounded" />
+                  )}
+                  <div className="flex-1 space-y-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-slate-900">{item.code}</span>
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}>
+                        {STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                    <p className="text-slate-700">{item.description}</p>
+                    {item.manufacturerDescription && (
+                      <p className="text-slate-500">{item.manufacturerDescription}</p>
+                    )}
+                    {item.productDetails && (
+                      <p className="text-slate-500">{item.productDetails}</p>
+                    )}
+                    <p className="text-slate-600">
+                      {item.quantity && <>Qty: {item.quantity} · </>}
+                      {item.price && <>Price: ${item.price}</>}
+                    </p>
+                    {item.notes && <p className="text-slate-500">Notes: {item.notes}</p>}
+
+                    <textarea
+                      className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500 disabled:bg-slate-50"
+                      rows={2}
+                      placeholder="Comments (optional)"
+                      value={item.clientComment}
+                      disabled={locked}
+                      onChange={(e) =>
+                        setItems((prev) => ({
+                          ...prev,
+                          [id]: { ...prev[id], clientComment: e.target.value },
+                        }))
+                      }
+                      onBlur={(e) => {
+                        if (status !== "pending") {
+                          saveDecision(id, status, e.target.value.trim());
+                        }
+                      }}
+                    />
+
+                    {!locked && (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          disabled={savingId === id}
+                          variant={status === "approved" ? "default" : "outline"}
+                          onClick={() => saveDecision(id, "approved", item.clientComment.trim())}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={savingId === id}
+                          variant={status === "rejected" ? "destructive" : "outline"}
+                          onClick={() => saveDecision(id, "rejected", item.clientComment.trim())}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+
+      <section className="bg-white border border-slate-200 rounded-lg shadow-sm p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-slate-900">Sign off</h2>
+
+        {signOff ? (
+          <p className="text-sm text-emerald-700">
+            Signed off by {signOff.by} on{" "}
+            {new Date(signOff.at).toLocaleString("en-AU")}. Thank you.
+          </p>
+        ) : (
+          <>
+            {pendingCount > 0 && (
+              <p className="text-sm text-slate-500">
+                {pendingCount} item{pendingCount !== 1 ? "s" : ""} still need a
+                decision before you can sign off.
+              </p>
+            )}
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Full name</label>
+              <input
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Signature</label>
+              <canvas
+                ref={canvasRef}
+                width={600}
+                height={160}
+                className="w-full h-40 rounded-md border border-slate-300 bg-white touch-none"
+                onPointerDown={startStroke}
+                onPointerMove={continueStroke}
+                onPointerUp={() => (drawing.current = false)}
+                onPointerLeave={() => (drawing.current = false)}
+              />
+              <button
+                type="button"
+                className="text-xs text-slate-500 hover:text-slate-700 underline"
+                onClick={clearSignature}
+              >
+                Clear signature
+              </button>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">
+                Notes for our team (optional)
+              </label>
+              <textarea
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                rows={3}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSignOff} disabled={submitting || pendingCount > 0}>
+              {submitting ? "Submitting..." : "Sign off selection"}
+            </Button>
+          </>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Product Selection",
+  description: "Review and approve your PdCon product selection.",
+  robots: { index: false, follow: false },
+};
+
+export default function SelectionLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <>{children}</>;
+}
@@ -0,0 +1,14 @@
+/**
+ * Runs once when the server starts. Admin sign-in needs dedicated session
+ * keys; say so loudly at boot rather than on the first login attempt. The
+ * public site keeps working either way, so this logs instead of throwing.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { sessionKeyProblem } = await import("@/lib/session-token");
+  const problem = sessionKeyProblem();
+  if (problem) {
+    console.error(`Admin sign-in is disabled until session keys are fixed: ${problem}`);
+  }
+}
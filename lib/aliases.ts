@@ -0,0 +1,71 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+
+/** Alias codes are stored trimmed and upper-cased, like product codes. */
+export function normaliseAliasCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Resolve codes to product ids: a product's own code first, then its
+ * aliases. When products at several suppliers share an alias code, the
+ * alias for `supplier` wins, then one with no supplier, then any.
+ * Codes that resolve to nothing are left out of the map.
+ */
+export async function resolveProductCodes(
+  codes: string[],
+  options: { supplier?: string | null; where?: Prisma.ProductWhereInput } = {}
+) {
+  const resolved = new Map<string, string>();
+  const wanted = Array.from(new Set(codes.map(normaliseAliasCode))).filter(Boolean);
+  if (wanted.length === 0) return resolved;
+
+  const products = await prisma.product.findMany({
+    where: { ...options.where, code: { in: wanted, mode: "insensitive" } },
+    select: { id: true, code: true },
+  });
+  const byCode = new Map(products.map((p) => [normaliseAliasCode(p.code), p.id]));
+
+  const aliases = await prisma.productAlias.findMany({
+    where: {
+      code: { in: wanted.filter((code) => !byCode.has(code)) },
+      ...(options.where ? { product: options.where } : {}),
+    },
+    select: { code: true, supplier: true, productId: true },
+  });
+  const supplier = options.supplier?.trim().toLowerCase() ?? "";
+  const rank = (aliasSupplier: string) => {
+    const s = aliasSupplier.toLowerCase();
+    return supplier && s === supplier ? 0 : s === "" ? 1 : 2;
+  };
+  const byAlias = new Map<string, { productId: string; rank: number }>();
+  for (const alias of aliases) {
+    const current = byAlias.get(alias.code);
+    const r = rank(alias.supplier);
+    if (!current || r < current.rank) byAlias.set(alias.code, { productId: alias.productId, rank: r });
+  }
+
+  for (const code of codes) {
+    const key = normaliseAliasCode(code);
+    const productId = byCode.get(key) ?? byAlias.get(key)?.productId;
+    if (productId) resolved.set(code, productId);
+  }
+  return resolved;
+}
+
+/**
+ * The product, other than `exceptProductId`, that has `code` as an alias.
+ * A product code must not also be another product's alias, or lookups of
+ * it would depend on which one resolveProductCodes tries first.
+ */
+export async function findAliasOwner(code: string, exceptProductId?: string) {
+  const alias = await prisma.productAlias.findFirst({
+    where: {
+      code: normaliseAliasCode(code),
+      ...(exceptProductId ? { productId: { not: exceptProductId } } : {}),
+    },
+    select: { product: { select: { id: true, code: true } } },
+  });
+  return alias?.product ?? null;
+}
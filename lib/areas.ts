@@ -0,0 +1,51 @@
+import { prisma } from "@/lib/prisma";
+
+export type AreaOrder = { name: string; displayLabel: string | null };
+
+export const areaOrderBy = [
+  { sortOrder: "asc" as const },
+  { name: "asc" as const },
+];
+
+export function areaLabel(area: AreaOrder) {
+  return area.displayLabel?.trim() || area.name;
+}
+
+/** Every area, inactive included, in document order. */
+export function getAreaOrder(): Promise<AreaOrder[]> {
+  return prisma.area.findMany({
+    orderBy: areaOrderBy,
+    select: { name: true, displayLabel: true },
+  });
+}
+
+/**
+ * Group items by area name following the database order. Names that no
+ * longer match an area (renamed or merged since the item was saved) are
+ * appended alphabetically under their own name, so nothing is ever dropped.
+ */
+export function groupByArea<T>(
+  items: T[],
+  areaOf: (item: T) => string | null | undefined,
+  areas: AreaOrder[]
+) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = areaOf(item)?.trim() || "Other";
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  const known = new Set(areas.map((a) => a.name));
+  const extra = Array.from(groups.keys())
+    .filter((name) => !known.has(name))
+    .sort()
+    .map((name) => ({ name, displayLabel: null }));
+
+  return [...areas, ...extra]
+    .filter((area) => groups.has(area.name))
+    .map((area) => ({
+      name: area.name,
+      label: areaLabel(area),
+      items: groups.get(area.name)!,
+    }));
+}
@@ -0,0 +1,101 @@
+import { Prisma } from "@prisma/client";
+
+import type { SessionPayload } from "@/lib/session-token";
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+
+/** What the audit page can filter by. Keep in step with the routes that log. */
+export const AUDIT_ENTITIES = ["product", "alias", "area", "selection", "pdf", "user"] as const;
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+export type AuditInput = {
+  /** `entity.verb`, e.g. "product.update". */
+  action: string;
+  entity: AuditEntity;
+  entityId?: string | null;
+  /** One line for the audit list, e.g. the product code or job address. */
+  summary?: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+/** Round-trips through JSON so Decimals and Dates are stored as plain values. */
+function toJson(value: unknown) {
+  if (value === undefined || value === null) return Prisma.DbNull;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+/**
+ * Record an admin action. A failed write is logged and swallowed: the action
+ * itself has already happened and shouldn't be reported as failed.
+ */
+export async function recordAudit(session: SessionPayload, request: Request, event: AuditInput) {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: session.userId,
+        actorName: session.username,
+        action: event.action,
+        entity: event.entity,
+        entityId: event.entityId ?? null,
+        summary: event.summary ?? null,
+        before: toJson(event.before),
+        after: toJson(event.after),
+        ip: clientIp(request),
+      },
+    });
+  } catch (error) {
+    console.error("Error recording audit event:", error);
+  }
+}
+
+export type AuditFilters = {
+  actor?: string;
+  entity?: string;
+  /** `YYYY-MM-DD`, inclusive. */
+  from?: string;
+  /** `YYYY-MM-DD`, inclusive. */
+  to?: string;
+};
+
+export const AUDIT_PAGE_SIZE = 200;
+
+function parseDay(value: string | undefined, endOfDay: boolean) {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (Number.isNaN(date.getTime())) return null;
+  if (endOfDay) date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+}
+
+/** Newest first, at most AUDIT_PAGE_SIZE events. Unknown filter values are ignored. */
+export async function listAuditEvents(filters: AuditFilters) {
+  const from = parseDay(filters.from, false);
+  const to = parseDay(filters.to, true);
+
+  const where: Prisma.AuditEventWhereInput = {
+    ...(filters.actor ? { actorName: filters.actor } : {}),
+    ...((AUDIT_ENTITIES as readonly string[]).includes(filters.entity ?? "")
+      ? { entity: filters.entity }
+      : {}),
+    ...(from || to
+      ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lt: to } : {}) } }
+      : {}),
+  };
+
+  return prisma.auditEvent.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: AUDIT_PAGE_SIZE,
+  });
+}
+
+/** Everyone who has an audit event, for the actor filter. */
+export async function listAuditActors() {
+  const rows = await prisma.auditEvent.findMany({
+    distinct: ["actorName"],
+    select: { actorName: true },
+    orderBy: { actorName: "asc" },
+  });
+  return rows.map((row) => row.actorName);
+}
@@ -1,15 +1,26 @@
-import crypto from "crypto";
 import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
 import { NextResponse } from "next/server";
 
-export type SessionPayload = {
-  username: string;
-  exp: number;
-};
-
-export const SESSION_COOKIE_NAME = "admin_session";
-const SESSION_TTL_MS = 1000 * 60 * 60 * 12; // 12 hours
+import { prisma } from "@/lib/prisma";
+import { clientIp } from "@/lib/rate-limit";
+import {
+  SESSION_COOKIE_NAME,
+  sessionKeyProblem,
+  signPayload,
+  verifySession,
+  type SessionPayload,
+} from "@/lib/session-token";
+import { hasRole, type Role } from "@/lib/users";
+
+export { SESSION_COOKIE_NAME, verifySession, type SessionPayload };
+
+// A session ends after this long without use; each request pushes it back.
+const SESSION_IDLE_MS = 1000 * 60 * 60 * 12; // 12 hours
+// ...and after this long regardless. The cookie and token share this limit.
+const SESSION_MAX_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+// lastSeenAt/expiresAt are only written when this much older, to spare the database.
+const SESSION_TOUCH_MS = 1000 * 60 * 5; // 5 minutes
 
 const cookieBaseOptions = {
   httpOnly: true,
@@ -18,70 +29,38 @@ const cookieBaseOptions = {
   path: "/",
 };
 
-function getSecret(): string {
-  const secret =
-    process.env.ADMIN_SESSION_SECRET ||
-    process.env.ADMIN_PASSWORD ||
-    process.env.ADMIN_USERNAME;
-
-  if (!secret) {
-    // Fallback only for local usage; production should set a secret.
-    return "set-admin-session-secret";
-  }
-
-  return secret;
-}
-
-function signPayload(payload: SessionPayload): string {
-  const base = Buffer.from(JSON.stringify(payload)).toString("base64url");
-  const signature = crypto
-    .createHmac("sha256", getSecret())
-    .update(base)
-    .digest("hex");
-
-  return `${base}.${signature}`;
-}
-
-export function verifySession(token?: string): SessionPayload | null {
-  if (!token || typeof token !== "string") return null;
-
-  const [base, signature] = token.split(".");
-  if (!base || !signature) return null;
-
-  const expectedSig = crypto
-    .createHmac("sha256", getSecret())
-    .update(base)
-    .digest("hex");
-
-  const sigBuffer = Buffer.from(signature);
-  const expectedBuffer = Buffer.from(expectedSig);
-
-  if (
-    sigBuffer.length !== expectedBuffer.length ||
-    !crypto.timingSafeEqual(sigBuffer, expectedBuffer)
-  ) {
-    return null;
-  }
-
-  try {
-    const payload = JSON.parse(
-      Buffer.from(base, "base64url").toString("utf8")
-    ) as SessionPayload;
+/**
+ * Record a new session for the user and sign a token naming it. The row is
+ * what makes the token valid: revoking it signs the token out.
+ */
+export async function createSession(
+  user: { id: string; username: string; role: Role },
+  request?: Request
+) {
+  const now = Date.now();
+  const exp = now + SESSION_MAX_MS;
 
-    if (typeof payload.exp !== "number" || Date.now() > payload.exp) {
-      return null;
-    }
+  // Expired rows (including revoked ones, once past expiry) are only kept
+  // for the sessions page, so clear them out here.
+  await prisma.session.deleteMany({
+    where: { userId: user.id, expiresAt: { lt: new Date(now) } },
+  });
 
-    return payload;
-  } catch {
-    return null;
-  }
-}
+  const row = await prisma.session.create({
+    data: {
+      userId: user.id,
+      expiresAt: new Date(Math.min(now + SESSION_IDLE_MS, exp)),
+      ip: request ? clientIp(request) : null,
+      userAgent: request?.headers.get("user-agent")?.slice(0, 500) || null,
+    },
+  });
 
-export function createSession(username: string, ttlMs = SESSION_TTL_MS) {
   const payload: SessionPayload = {
-    username,
-    exp: Date.now() + ttlMs,
+    sid: row.id,
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    exp,
   };
 
   return {
@@ -90,10 +69,55 @@ export function createSession(username: string, ttlMs = SESSION_TTL_MS) {
   };
 }
 
+/**
+ * A 503 when session signing keys are missing or weak, so sign-in routes
+ * refuse up front instead of failing after checking the password.
+ */
+export function sessionsUnavailable() {
+  const problem = sessionKeyProblem();
+  if (!problem) return null;
+  console.error(`Admin sign-in refused: ${problem}`);
+  return NextResponse.json(
+    { error: "Admin sign-in is not configured on this server." },
+    { status: 503 }
+  );
+}
+
+/**
+ * Finish signing a user in: record the login and return an `{ ok, exp }`
+ * response carrying the session cookie.
+ */
+export async function signInResponse(
+  user: { id: string; username: string; role: string },
+  request: Request
+) {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  const { token, payload } = await createSession(
+    { id: user.id, username: user.username, role: user.role as Role },
+    request
+  );
+  const response = NextResponse.json({ ok: true, exp: payload.exp });
+  setSessionCookie(response, token, payload.exp - Date.now());
+  return response;
+}
+
+/** Sign out the given sessions, or every session of a user. */
+export async function revokeSessions(where: { id?: string; userId?: string }) {
+  const { count } = await prisma.session.updateMany({
+    where: { ...where, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
 export function setSessionCookie(
   response: NextResponse,
   token: string,
-  ttlMs = SESSION_TTL_MS
+  ttlMs = SESSION_MAX_MS
 ) {
   response.cookies.set(SESSION_COOKIE_NAME, token, {
     ...cookieBaseOptions,
@@ -114,11 +138,78 @@ export async function getSessionFromCookies(): Promise<SessionPayload | null> {
   return verifySession(token);
 }
 
-export async function requireAdmin() {
+/**
+ * The signed-in user's session, checked against its database row and with
+ * the role re-read, so revoking a session, deactivating a user or changing
+ * their role applies straight away. Each use slides the idle expiry along.
+ */
+export async function getCurrentSession(): Promise<SessionPayload | null> {
   const session = await getSessionFromCookies();
+  if (!session) return null;
+
+  const row = await prisma.session.findUnique({
+    where: { id: session.sid },
+    include: { user: { select: { username: true, role: true, active: true } } },
+  });
+  const now = Date.now();
+  if (
+    !row ||
+    row.userId !== session.userId ||
+    row.revokedAt ||
+    row.expiresAt.getTime() <= now ||
+    !row.user.active
+  ) {
+    return null;
+  }
+
+  if (now - row.lastSeenAt.getTime() > SESSION_TOUCH_MS) {
+    await prisma.session.update({
+      where: { id: row.id },
+      data: {
+        lastSeenAt: new Date(now),
+        expiresAt: new Date(Math.min(now + SESSION_IDLE_MS, session.exp)),
+      },
+    });
+  }
+
+  return { ...session, username: row.user.username, role: row.user.role as Role };
+}
+
+export async function requireAdmin(role: Role = "viewer") {
+  const session = await getCurrentSession();
   if (!session) {
     redirect("/admin");
   }
+  if (!hasRole(session.role, role)) {
+    redirect("/admin?error=forbidden");
+  }
   return session;
 }
 
+/**
+ * Route-handler check: the session when the user has at least `role`,
+ * otherwise the 401/403 response to return.
+ */
+export async function requireApiRole(
+  role: Role
+): Promise<
+  | { session: SessionPayload; response?: undefined }
+  | { session?: undefined; response: NextResponse }
+> {
+  const session = await getCurrentSession();
+  if (!session) {
+    return {
+      response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  if (!hasRole(session.role, role)) {
+    return {
+      response: NextResponse.json(
+        { error: `This action needs the ${role} role` },
+        { status: 403 }
+      ),
+    };
+  }
+  return { session };
+}
+
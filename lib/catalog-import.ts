@@ -0,0 +1,128 @@
+// Column mapping and row validation for the spreadsheet catalog import.
+// Shared by the /admin/import page and its API route, so keep it free of
+// server-only imports.
+
+export const IMPORT_FIELDS = [
+  { key: "code", label: "Code", required: true },
+  { key: "area", label: "Area", required: true },
+  { key: "description", label: "Description", required: false },
+  { key: "manufacturerDescription", label: "Manufacturer description", required: false },
+  { key: "productDetails", label: "Product details", required: false },
+  { key: "price", label: "Price", required: false },
+  { key: "imageUrl", label: "Image URL", required: false },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"];
+
+/** Spreadsheet column index for each Product field; unmapped fields are absent. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportRow = Record<ImportField, string>;
+
+export type ImportRowReview = {
+  index: number;
+  code: string;
+  status: "new" | "update";
+  errors: string[];
+  warnings: string[];
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  code: ["code", "productcode", "sku", "itemcode", "partnumber", "itemno"],
+  area: ["area", "category", "room"],
+  description: ["description", "name", "productname", "title"],
+  manufacturerDescription: ["manufacturerdescription", "manufacturer", "brand", "supplierdescription"],
+  productDetails: ["productdetails", "details", "notes", "specifications", "specs"],
+  price: ["price", "unitprice", "cost", "priceexgst", "rrp", "tradeprice"],
+  imageUrl: ["imageurl", "image", "photo", "picture", "imagelink"],
+};
+
+function headerKey(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Suggest a mapping from header names; each column is used at most once. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const { key } of IMPORT_FIELDS) {
+    const index = headers.findIndex(
+      (h, i) => !used.has(i) && HEADER_ALIASES[key].includes(headerKey(h))
+    );
+    if (index >= 0) {
+      mapping[key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+export function applyMapping(rows: string[][], mapping: ColumnMapping): ImportRow[] {
+  return rows.map((row) => {
+    const mapped = {} as ImportRow;
+    for (const { key } of IMPORT_FIELDS) {
+      const column = mapping[key];
+      mapped[key] = column === undefined ? "" : (row[column] ?? "").trim();
+    }
+    return mapped;
+  });
+}
+
+export function parseImportPrice(raw: string) {
+  const cleaned = raw.replace(/[$,\s]/g, "").replace(/(inc|ex)gst$/i, "");
+  if (!cleaned) return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) && value >= 0 ? Math.round(value * 100) / 100 : NaN;
+}
+
+/**
+ * Check mapped rows against the catalog. Codes match exactly, as the unique
+ * index does; `areaNames` are lower-cased. Rows with errors block the
+ * commit; warnings don't.
+ */
+export function reviewImportRows(
+  rows: ImportRow[],
+  existingCodes: Set<string>,
+  areaNames: Set<string>
+): ImportRowReview[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    if (row.code) counts.set(row.code, (counts.get(row.code) ?? 0) + 1);
+  }
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const exists = existingCodes.has(row.code);
+
+    if (!row.code) errors.push("Code is missing");
+    if ((counts.get(row.code) ?? 0) > 1) errors.push("Code appears more than once in this file");
+
+    if (!row.area && !exists) {
+      errors.push("Area is missing");
+    } else if (row.area && !areaNames.has(row.area.toLowerCase())) {
+      warnings.push(`New area "${row.area}" will be created`);
+    }
+
+    if (!exists && !row.description && !row.manufacturerDescription) {
+      errors.push("Description is missing");
+    }
+
+    const price = parseImportPrice(row.price);
+    if (Number.isNaN(price)) errors.push(`Price "${row.price}" is not a number`);
+
+    if (row.imageUrl && !/^https?:\/\/\S+$/i.test(row.imageUrl)) {
+      errors.push("Image URL must start with http:// or https://");
+    }
+
+    return {
+      index,
+      code: row.code,
+      status: exists ? "update" : "new",
+      errors,
+      warnings,
+    };
+  });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { normaliseCode, rankCodeCandidates } from "@/lib/code-matching";
+
+const product = (code: string, aliases?: string[]) => ({ id: code, code, aliases });
+
+const rank = (code: string, products: ReturnType<typeof product>[]) =>
+  rankCodeCandidates(code, products).map((c) => [c.product.code, c.score, c.reason]);
+
+describe("normaliseCode", () => {
+  it("upper-cases and drops separators", () => {
+    expect(normaliseCode("bw-001 / a.b_c")).toBe("BW001ABC");
+  });
+});
+
+describe("rankCodeCandidates", () => {
+  it("matches codes written with different separators", () => {
+    expect(rank("bw 001", [product("BW-001")])).toEqual([
+      ["BW-001", 1, "Same code apart from separators"],
+    ]);
+  });
+
+  it("scores variant suffixes on either side", () => {
+    expect(rank("TAP200-CHR", [product("TAP200")])).toEqual([
+      ["TAP200", 0.85, 'Same code without the "CHR" suffix'],
+    ]);
+    expect(rank("TAP200", [product("TAP200-CHR")])).toEqual([
+      ["TAP200-CHR", 0.8, 'Catalog code adds a "CHR" suffix'],
+    ]);
+    expect(rank("TAP200-CHR", [product("TAP200-BLK")])).toEqual([
+      ["TAP200-BLK", 0.75, "Same code with a different suffix"],
+    ]);
+  });
+
+  it("scores typos by edit distance", () => {
+    expect(rank("BW1235", [product("BW1234")])).toEqual([
+      ["BW1234", 0.67, "1 character different"],
+    ]);
+    expect(rank("BW1243", [product("BW1234")])).toEqual([
+      ["BW1234", 0.53, "2 characters different"],
+    ]);
+  });
+
+  it("drops candidates below the threshold", () => {
+    // Two edits in four characters scores 0.4.
+    expect(rank("AB12", [product("AB21")])).toEqual([]);
+    // Three edits is past the distance limit however long the code.
+    expect(rank("BW123456", [product("BW123789")])).toEqual([]);
+    // Short codes are never fuzzy-matched.
+    expect(rank("AB1", [product("AB2")])).toEqual([]);
+    expect(rank("", [product("BW-001")])).toEqual([]);
+  });
+
+  it("scores an alias match slightly below a code match", () => {
+    expect(rank("BW001", [product("TAP-9", ["bw-001"]), product("BW-001")])).toEqual([
+      ["BW-001", 1, "Same code apart from separators"],
+      ["TAP-9", 0.95, "Alias bw-001: same code apart from separators"],
+    ]);
+  });
+
+  it("keeps a product's best match across its code and aliases", () => {
+    expect(rank("TAP200", [product("TAP201", ["TAP200-CHR"])])).toEqual([
+      ["TAP201", 0.76, 'Alias TAP200-CHR: catalog code adds a "chr" suffix'],
+    ]);
+  });
+
+  it("breaks score ties by catalog code", () => {
+    expect(
+      rank("TAP200-BLK", [product("TAP200-RED"), product("TAP200-CHR")]).map(([code]) => code)
+    ).toEqual(["TAP200-CHR", "TAP200-RED"]);
+  });
+
+  it("returns at most five candidates, best first", () => {
+    const products = ["CHR", "RED", "GRN", "BLU", "WHT", "GLD"].map((s) =>
+      product(`TAP200-${s}`)
+    );
+    const ranked = rank("TAP200", [product("TAP201"), ...products]);
+    expect(ranked).toHaveLength(5);
+    expect(ranked.map(([code]) => code)).toEqual([
+      "TAP200-BLU",
+      "TAP200-CHR",
+      "TAP200-GLD",
+      "TAP200-GRN",
+      "TAP200-RED",
+    ]);
+  });
+});
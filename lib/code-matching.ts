@@ -0,0 +1,128 @@
+/**
+ * Matching supplier codes to catalog codes that are written differently:
+ * "BW-001" vs "BW001", a colour suffix ("TAP200-CHR"), or a typo. Used for
+ * codes an exact lookup missed; results are suggestions for a person to
+ * confirm, never applied automatically.
+ */
+
+export type MatchableProduct = {
+  id: string;
+  code: string;
+  /** Other codes known to mean this product. */
+  aliases?: string[];
+};
+
+export type CodeCandidate<T extends MatchableProduct> = {
+  product: T;
+  /** 0–1, higher is a better match. */
+  score: number;
+  /** Why the candidate was suggested, for display. */
+  reason: string;
+};
+
+// Below this a candidate is noise rather than a suggestion.
+const MIN_SCORE = 0.5;
+const MAX_CANDIDATES = 5;
+// Edit distance only means something once codes are this long.
+const MIN_FUZZY_LENGTH = 4;
+const MAX_EDIT_DISTANCE = 2;
+
+/** Upper-case with separators (spaces, dashes, dots, slashes) removed. */
+export function normaliseCode(code: string) {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * The code without a trailing variant suffix, normalised: the last segment
+ * after a separator when it is 1–4 letters ("TAP200-CHR" → "TAP200").
+ * Returns null when there is no such suffix.
+ */
+function withoutSuffix(code: string) {
+  const match = code.toUpperCase().match(/^(.*[A-Z0-9])[\s\-_./]+([A-Z]{1,4})$/);
+  return match ? { base: normaliseCode(match[1]), suffix: match[2] } : null;
+}
+
+/** Levenshtein distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function scoreCode(code: string, candidate: string): { score: number; reason: string } | null {
+  const a = normaliseCode(code);
+  const b = normaliseCode(candidate);
+  if (!a || !b) return null;
+
+  if (a === b) return { score: 1, reason: "Same code apart from separators" };
+
+  const ownSuffix = withoutSuffix(code);
+  if (ownSuffix?.base === b) {
+    return { score: 0.85, reason: `Same code without the "${ownSuffix.suffix}" suffix` };
+  }
+  const theirSuffix = withoutSuffix(candidate);
+  if (theirSuffix?.base === a) {
+    return { score: 0.8, reason: `Catalog code adds a "${theirSuffix.suffix}" suffix` };
+  }
+  if (ownSuffix && theirSuffix && ownSuffix.base === theirSuffix.base) {
+    return { score: 0.75, reason: "Same code with a different suffix" };
+  }
+
+  if (Math.min(a.length, b.length) < MIN_FUZZY_LENGTH) return null;
+  const distance = editDistance(a, b, MAX_EDIT_DISTANCE);
+  if (distance > MAX_EDIT_DISTANCE) return null;
+
+  const similarity = 1 - distance / Math.max(a.length, b.length);
+  return {
+    score: 0.8 * similarity,
+    reason: `${distance} character${distance === 1 ? "" : "s"} different`,
+  };
+}
+
+/**
+ * Ranked catalog candidates for one code, best first. A product is scored
+ * on its own code and its aliases; an alias match counts slightly less than
+ * the same match on the product code.
+ */
+export function rankCodeCandidates<T extends MatchableProduct>(
+  code: string,
+  products: T[]
+): CodeCandidate<T>[] {
+  const candidates: CodeCandidate<T>[] = [];
+
+  for (const product of products) {
+    let best = scoreCode(code, product.code);
+    for (const alias of product.aliases ?? []) {
+      const match = scoreCode(code, alias);
+      if (!match) continue;
+      const score = match.score * 0.95;
+      if (!best || score > best.score) {
+        best = { score, reason: `Alias ${alias}: ${match.reason.toLowerCase()}` };
+      }
+    }
+
+    if (best && best.score >= MIN_SCORE) {
+      candidates.push({
+        product,
+        score: Math.round(best.score * 100) / 100,
+        reason: best.reason,
+      });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.product.code.localeCompare(b.product.code))
+    .slice(0, MAX_CANDIDATES);
+}
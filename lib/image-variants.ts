@@ -0,0 +1,40 @@
+/**
+ * Product photos are stored as `<base>/image-original.<ext>` with resized
+ * copies beside it (`<base>/image-thumb.webp`, `<base>/image-medium.jpg`, ...).
+ * This module only deals in URLs, so client components can use it too.
+ */
+
+/** Longest side in pixels. Smaller originals are never enlarged. */
+export const IMAGE_SIZES = { thumb: 320, medium: 800, large: 1600 } as const;
+export type ImageSize = keyof typeof IMAGE_SIZES;
+
+export const VARIANT_FORMATS = { webp: "webp", jpeg: "jpg" } as const;
+export type VariantFormat = keyof typeof VARIANT_FORMATS;
+
+const ORIGINAL_NAME = /\/image-original\.(jpg|png|webp)$/;
+
+export function originalImageKey(keyBase: string, extension: string) {
+  return `${keyBase}/image-original.${extension}`;
+}
+
+export function variantImageKey(keyBase: string, size: ImageSize, format: VariantFormat) {
+  return `${keyBase}/image-${size}.${VARIANT_FORMATS[format]}`;
+}
+
+/**
+ * The URL of a resized copy of a product photo. Photos stored before
+ * processing existed, and images hosted elsewhere, have no copies; their
+ * URL comes back unchanged.
+ */
+export function imageVariantUrl(
+  url: string | null | undefined,
+  size: ImageSize,
+  format: VariantFormat = "webp"
+) {
+  if (!url) return url ?? "";
+  const cut = url.search(/[?#]/);
+  const path = cut === -1 ? url : url.slice(0, cut);
+  if (!ORIGINAL_NAME.test(path)) return url;
+  const variant = path.replace(ORIGINAL_NAME, `/image-${size}.${VARIANT_FORMATS[format]}`);
+  return cut === -1 ? variant : variant + url.slice(cut);
+}
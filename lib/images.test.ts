@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { copyRemoteImage } from "@/lib/images";
+
+const MB = 1024 * 1024;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("copyRemoteImage", () => {
+  it("refuses a download that declares more than 10MB", async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream({ pull: () => undefined, cancel });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(body, { headers: { "content-length": String(11 * MB) } }))
+    );
+
+    await expect(copyRemoteImage("https://example.com/a.jpg", "products/a")).rejects.toThrow(
+      "Image is larger than 10MB"
+    );
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("stops reading once the body passes 10MB", async () => {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(MB));
+      },
+    });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body)));
+
+    await expect(copyRemoteImage("https://example.com/a.jpg", "products/a")).rejects.toThrow(
+      "Image is larger than 10MB"
+    );
+    expect(pulled).toBeLessThan(14);
+  });
+
+  it("reports a failed download", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("gone", { status: 404 })));
+    await expect(copyRemoteImage("https://example.com/a.jpg", "products/a")).rejects.toThrow(
+      "Image download failed (404)"
+    );
+  });
+});
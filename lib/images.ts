@@ -0,0 +1,187 @@
+import sharp from "sharp";
+
+import {
+  IMAGE_SIZES,
+  originalImageKey,
+  variantImageKey,
+  type ImageSize,
+  type VariantFormat,
+} from "@/lib/image-variants";
+import { getStorage } from "@/lib/storage";
+
+/** The file was not an image we can read, whatever its name or content type said. */
+export class ImageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageValidationError";
+  }
+}
+
+// Formats accepted on upload, by what sharp detects in the bytes.
+const ACCEPTED_FORMATS = new Set(["jpeg", "png", "webp", "gif", "avif", "heif", "tiff"]);
+
+// Originals keep their format when browsers can show it; the rest become PNG.
+const ORIGINAL_OUTPUT: Record<string, { extension: string; contentType: string }> = {
+  jpeg: { extension: "jpg", contentType: "image/jpeg" },
+  png: { extension: "png", contentType: "image/png" },
+  webp: { extension: "webp", contentType: "image/webp" },
+};
+const FALLBACK_OUTPUT = ORIGINAL_OUTPUT.png;
+
+const MAX_INPUT_BYTES = 20 * 1024 * 1024;
+const MAX_INPUT_PIXELS = 60_000_000;
+
+type ProcessedFile = { body: Buffer; contentType: string };
+
+export type ProcessedImage = {
+  original: ProcessedFile & { extension: string };
+  variants: { size: ImageSize; format: VariantFormat; file: ProcessedFile }[];
+  width: number;
+  height: number;
+};
+
+/**
+ * Check that `input` really is an image, then re-encode it upright and
+ * without metadata (EXIF, GPS, camera details), along with a WebP and a
+ * JPEG copy at each of IMAGE_SIZES. Throws ImageValidationError for
+ * anything that isn't a readable image.
+ */
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  if (input.length === 0) throw new ImageValidationError("Image is empty");
+  if (input.length > MAX_INPUT_BYTES) {
+    throw new ImageValidationError("Image is larger than 20MB");
+  }
+
+  const open = () =>
+    sharp(input, { failOn: "error", limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata());
+  } catch {
+    throw new ImageValidationError("File is not a readable image");
+  }
+  if (!format || !ACCEPTED_FORMATS.has(format)) {
+    throw new ImageValidationError(`Unsupported image format: ${format || "unknown"}`);
+  }
+
+  const output = ORIGINAL_OUTPUT[format] ?? FALLBACK_OUTPUT;
+  let original: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    const pipeline = open();
+    original = await (output.extension === "jpg"
+      ? pipeline.jpeg({ quality: 90, mozjpeg: true })
+      : output.extension === "webp"
+        ? pipeline.webp({ quality: 90 })
+        : pipeline.png()
+    ).toBuffer({ resolveWithObject: true });
+  } catch {
+    throw new ImageValidationError("Image data is corrupt");
+  }
+
+  // One at a time: every variant decodes the full original.
+  const variants: ProcessedImage["variants"] = [];
+  for (const [size, edge] of Object.entries(IMAGE_SIZES) as [ImageSize, number][]) {
+    const resized = () =>
+      open().resize({ width: edge, height: edge, fit: "inside", withoutEnlargement: true });
+
+    variants.push({
+      size,
+      format: "webp",
+      file: {
+        body: await resized().webp({ quality: 80 }).toBuffer(),
+        contentType: "image/webp",
+      },
+    });
+    variants.push({
+      size,
+      format: "jpeg",
+      file: {
+        // JPEG has no transparency; cut-out product shots go on white.
+        body: await resized()
+          .flatten({ background: "#ffffff" })
+          .jpeg({ quality: 82, mozjpeg: true })
+          .toBuffer(),
+        contentType: "image/jpeg",
+      },
+    });
+  }
+
+  return {
+    original: { body: original.data, contentType: output.contentType, extension: output.extension },
+    variants,
+    width: original.info.width,
+    height: original.info.height,
+  };
+}
+
+/**
+ * Process a product photo and store the original with its variants under
+ * `keyBase`. Returns the original's public URL, which is what products keep
+ * as `imageUrl`; imageVariantUrl finds the copies from it.
+ */
+export async function storeProductImage(keyBase: string, input: Buffer) {
+  const image = await processImage(input);
+  const storage = getStorage();
+
+  // Variants first, so an original is never stored without its copies.
+  for (const { size, format, file } of image.variants) {
+    await storage.put(variantImageKey(keyBase, size, format), file.body, {
+      contentType: file.contentType,
+    });
+  }
+
+  const key = originalImageKey(keyBase, image.original.extension);
+  await storage.put(key, image.original.body, { contentType: image.original.contentType });
+  return storage.publicUrl(key);
+}
+
+/** Turn a product code into something safe to use in a storage key. */
+export function imageKeyBase(folder: string, code: string) {
+  return `${folder}/${code.replace(/[^a-z0-9_-]+/gi, "_")}-${Date.now()}`;
+}
+
+const REMOTE_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Read a response body, giving up as soon as it passes `maxBytes` rather
+ * than downloading the rest first. Returns null when it is too large.
+ */
+async function readBodyWithin(resp: Response, maxBytes: number) {
+  const declared = Number(resp.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await resp.body?.cancel();
+    return null;
+  }
+  if (!resp.body) return Buffer.alloc(0);
+
+  const reader = resp.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download an image from a supplier URL and store a processed copy so the
+ * catalog doesn't depend on the supplier keeping it online. Returns the
+ * public URL of the copy.
+ */
+export async function copyRemoteImage(url: string, keyBase: string) {
+  const resp = await fetch(url, { signal: AbortSignal.timeout(15_000) });
+  if (!resp.ok) throw new Error(`Image download failed (${resp.status})`);
+
+  const body = await readBodyWithin(resp, REMOTE_IMAGE_MAX_BYTES);
+  if (!body) throw new Error("Image is larger than 10MB");
+
+  return storeProductImage(keyBase, body);
+}
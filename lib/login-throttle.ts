@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { createRateLimiter, type RateLimitResult } from "@/lib/rate-limit";
+
+/**
+ * Brute-force protection for sign-in. Only failures count, but every try is
+ * counted before the password is checked and given back if it was right, so
+ * guesses sent at once can't slip past the limit. Per username, a few free
+ * tries and then backoff, with a lockout at 10 failures; per IP the limits
+ * are looser since an office shares one address. Password and code checks
+ * on the account page count against the same limits.
+ */
+
+const WINDOW_MS = 1000 * 60 * 15; // 15 minutes
+
+const byUsername = createRateLimiter("login-user", {
+  limit: 10,
+  windowMs: WINDOW_MS,
+  backoffAfter: 3,
+});
+
+const byIp = createRateLimiter("login-ip", {
+  limit: 50,
+  windowMs: WINDOW_MS,
+  backoffAfter: 10,
+});
+
+function userKey(username: string) {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Count a try for this IP and username before checking the credentials.
+ * Limited when either is over its limit, in which case neither is counted.
+ */
+export async function startLoginAttempt(ip: string, username: string): Promise<RateLimitResult> {
+  const user = await byUsername.attempt(userKey(username));
+  if (user.limited) return user;
+  const address = await byIp.attempt(ip);
+  if (address.limited) await byUsername.undo(userKey(username));
+  return address;
+}
+
+/** The try was already counted by startLoginAttempt; this only logs it. */
+export function recordLoginFailure(ip: string, username: string, reason: string) {
+  console.warn(
+    `Failed admin login at ${new Date().toISOString()} from ${ip} for "${username}": ${reason}`
+  );
+}
+
+/** A right password that still needs its second factor: the try doesn't count. */
+export async function releaseLoginAttempt(ip: string, username: string) {
+  await Promise.all([byUsername.undo(userKey(username)), byIp.undo(ip)]);
+}
+
+/** A completed sign-in clears the username's failures; the IP's stay. */
+export async function recordLoginSuccess(ip: string, username: string) {
+  await Promise.all([byUsername.reset(userKey(username)), byIp.undo(ip)]);
+}
+
+export function tooManyAttempts(result: RateLimitResult, ip: string, username: string) {
+  const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  console.warn(
+    `Throttled admin login at ${new Date().toISOString()} from ${ip} for "${username}", retry in ${retryAfter}s`
+  );
+  return NextResponse.json(
+    {
+      error: `Too many failed attempts. Try again in ${
+        retryAfter >= 60 ? `${Math.ceil(retryAfter / 60)} minutes` : `${retryAfter} seconds`
+      }.`,
+      retryAfter,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
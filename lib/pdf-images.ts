@@ -0,0 +1,62 @@
+import type { PdfImage, PdfRow } from "@/lib/pdf-layout";
+import { PDFParse } from "pdf-parse";
+
+/**
+ * Pair product rows with the thumbnails printed beside them. An image goes
+ * to the row on its page whose vertical band it overlaps, nearest centre
+ * first; a row keeps only its largest image. Returns row index → image.
+ */
+export function matchImagesToRows(
+  images: PdfImage[],
+  rows: PdfRow[],
+  rowIndexes: number[]
+) {
+  const matches = new Map<number, PdfImage>();
+  const area = (image: PdfImage) => image.width * image.height;
+
+  for (const image of images) {
+    const top = image.y + image.height;
+    const centre = image.y + image.height / 2;
+
+    let best: { index: number; distance: number } | null = null;
+    for (const index of rowIndexes) {
+      const row = rows[index];
+      if (row.page !== image.page || row.top < image.y || row.bottom > top) continue;
+      const distance = Math.abs((row.top + row.bottom) / 2 - centre);
+      if (!best || distance < best.distance) best = { index, distance };
+    }
+    if (!best) continue;
+
+    const current = matches.get(best.index);
+    if (!current || area(image) > area(current)) matches.set(best.index, image);
+  }
+
+  return matches;
+}
+
+/**
+ * Decode the given embedded images to PNG. Images pdf.js can't decode are
+ * left out of the result.
+ */
+export async function readImagePngs(buffer: Buffer, images: PdfImage[]) {
+  const pngs = new Map<PdfImage, Buffer>();
+  if (images.length === 0) return pngs;
+
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getImage({
+      partial: Array.from(new Set(images.map((image) => image.page))),
+      imageBuffer: true,
+      imageDataUrl: false,
+      // Placements are already size-filtered; the 80px default drops thumbnails.
+      imageThreshold: 0,
+    });
+    for (const image of images) {
+      const found = result.getPageImage(image.page, image.name);
+      if (found?.data.length) pngs.set(image, Buffer.from(found.data));
+    }
+  } finally {
+    await parser.destroy();
+  }
+  return pngs;
+}
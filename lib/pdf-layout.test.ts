@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from "vitest";
+
+// OCR pulls in Tesseract; none of these pages need it.
+vi.mock("@/lib/pdf-ocr", () => ({ ocrPages: vi.fn() }));
+
+import { buildLines, buildRows, findColumns, type TextRun } from "@/lib/pdf-layout";
+
+/** A 10pt run whose width is roughly what the text would take. */
+function run(x: number, y: number, text: string, size = 10): TextRun {
+  return { x, y, right: x + text.length * size * 0.5, size, text };
+}
+
+const header = (y: number) => [
+  run(50, y, "Code"),
+  run(120, y, "Description"),
+  run(300, y, "Qty"),
+  run(400, y, "Price"),
+];
+
+const item = (y: number, code: string, description: string, qty: string, price: string) => [
+  run(50, y, code),
+  run(120, y, description),
+  run(300, y, qty),
+  // Right-aligned numbers start a little off the column edge.
+  run(400 + (8 - price.length) * 2, y, price),
+];
+
+describe("findColumns", () => {
+  it("finds the left edges the table lines share", () => {
+    const lines = buildLines(
+      [
+        ...header(700),
+        ...item(680, "BW-001", "Basin mixer", "2", "120.00"),
+        ...item(660, "BW-002", "Shower rail", "1", "85.50"),
+        ...item(640, "BW-003", "Towel hook", "4", "9.90"),
+      ],
+      1
+    );
+    expect(findColumns(lines)).toEqual([50, 120, 300, 400]);
+  });
+
+  it("snaps cells near a column edge into that column", () => {
+    const row = (priceX: number) =>
+      buildLines(
+        [
+          ...header(700),
+          run(50, 680, "BW-001"),
+          run(120, 680, "Basin mixer"),
+          run(300, 680, "2"),
+          run(priceX, 680, "1.00"),
+        ],
+        1
+      );
+    expect(findColumns(row(410))).toEqual([50, 120, 300, 400]);
+    // Past 1.2 font sizes from the edge it is a column of its own.
+    expect(findColumns(row(420))).toEqual([50, 120, 300, 400, 420]);
+  });
+
+  it("ignores an x position only a few lines use", () => {
+    const lines = buildLines(
+      [
+        ...header(700),
+        ...item(680, "BW-001", "Basin mixer", "2", "120.00"),
+        ...item(660, "BW-002", "Shower rail", "1", "85.50"),
+        ...item(640, "BW-003", "Towel hook", "4", "9.90"),
+        run(500, 640, "*"),
+      ],
+      1
+    );
+    expect(findColumns(lines)).toEqual([50, 120, 300, 400]);
+  });
+
+  it("finds none without lines of three or more cells", () => {
+    const lines = buildLines([run(50, 700, "Quote"), run(300, 700, "Page 1")], 1);
+    expect(findColumns(lines)).toEqual([]);
+  });
+});
+
+describe("buildRows", () => {
+  it("joins wrapped descriptions onto their row", () => {
+    const lines = buildLines(
+      [
+        ...header(700),
+        ...item(680, "BW-001", "Basin mixer", "2", "120.00"),
+        run(120, 670, "chrome finish"),
+        ...item(650, "BW-002", "Shower rail", "1", "85.50"),
+      ],
+      1
+    );
+    const rows = buildRows(lines, findColumns(lines), []);
+
+    expect(rows.map((r) => r.cells)).toEqual([
+      ["Code", "Description", "Qty", "Price"],
+      ["BW-001", "Basin mixer chrome finish", "2", "120.00"],
+      ["BW-002", "Shower rail", "1", "85.50"],
+    ]);
+    expect(rows[1]).toMatchObject({ page: 1, top: 690, bottom: 667.5, ocr: false });
+  });
+
+  it("keeps a line well below the previous row separate", () => {
+    const lines = buildLines(
+      [
+        ...header(700),
+        ...item(680, "BW-001", "Basin mixer", "2", "120.00"),
+        run(120, 640, "Delivery not included"),
+      ],
+      1
+    );
+    const rows = buildRows(lines, findColumns(lines), []);
+    expect(rows.map((r) => r.cells[1])).toEqual([
+      "Description",
+      "Basin mixer",
+      "Delivery not included",
+    ]);
+  });
+
+  it("starts a new row for a line carrying a number", () => {
+    const lines = buildLines(
+      [
+        ...header(700),
+        ...item(680, "BW-001", "Basin mixer", "2", "120.00"),
+        run(300, 670, "Total"),
+        run(405, 670, "120.00"),
+      ],
+      1
+    );
+    const rows = buildRows(lines, findColumns(lines), []);
+    expect(rows.map((r) => r.cells)).toEqual([
+      ["Code", "Description", "Qty", "Price"],
+      ["BW-001", "Basin mixer", "2", "120.00"],
+      ["", "", "Total", "120.00"],
+    ]);
+  });
+
+  it("carries a row over a page break and drops the repeated header", () => {
+    const lines = [
+      ...buildLines(
+        [...header(700), ...item(80, "BW-001", "Basin mixer", "2", "120.00")],
+        1
+      ),
+      ...buildLines(
+        [
+          ...header(800),
+          run(120, 780, "chrome finish"),
+          ...item(760, "BW-002", "Shower rail", "1", "85.50"),
+        ],
+        2
+      ),
+    ];
+    const rows = buildRows(lines, findColumns(lines), [2]);
+
+    expect(rows.map((r) => [r.page, r.ocr, r.cells[0], r.cells[1]])).toEqual([
+      [1, false, "Code", "Description"],
+      [1, false, "BW-001", "Basin mixer chrome finish"],
+      [2, true, "BW-002", "Shower rail"],
+    ]);
+    // The row's box stays on the page it started on.
+    expect(rows[1].bottom).toBe(77.5);
+  });
+
+  it("returns each line's cells as they are without columns", () => {
+    const lines = buildLines([run(50, 700, "Quote"), run(300, 700, "Page 1")], 1);
+    expect(buildRows(lines, [], [])).toEqual([
+      { page: 1, cells: ["Quote", "Page 1"], ocr: false, top: 710, bottom: 697.5 },
+    ]);
+  });
+});
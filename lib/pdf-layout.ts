@@ -0,0 +1,320 @@
+import { ocrPages } from "@/lib/pdf-ocr";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
+
+/** One run of text on a page, in PDF points from the bottom-left corner. */
+export type TextRun = {
+  x: number;
+  y: number;
+  right: number;
+  size: number;
+  text: string;
+};
+
+type Cell = { x: number; right: number; text: string };
+
+export type Line = { page: number; y: number; size: number; cells: Cell[] };
+
+export type PdfRow = {
+  page: number;
+  /** One entry per detected column; empty where the row has nothing in it. */
+  cells: string[];
+  /** The page had no text layer and was read with OCR. */
+  ocr: boolean;
+  /** Vertical extent on `page`, in PDF points from the bottom edge. */
+  top: number;
+  bottom: number;
+};
+
+/** Where an embedded image is drawn, in PDF points from the bottom-left corner. */
+export type PdfImage = {
+  page: number;
+  /** pdf.js object name, used to fetch the image's pixels. */
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type PdfLayout = {
+  pageCount: number;
+  /** Plain text, one visual line per line, cells separated by two spaces. */
+  text: string;
+  /** Table rows rebuilt from text positions, in reading order across pages. */
+  rows: PdfRow[];
+  /** Pages read with OCR because they had no text layer. */
+  ocrPages: number[];
+  /** Images drawn on pages with a text layer (a scan is one big image). */
+  images: PdfImage[];
+};
+
+// Tolerances are in multiples of the font size so they hold for small print
+// and large headings alike.
+const SAME_LINE = 0.5;
+// Text drops below its baseline by about this much of the font size.
+const DESCENDER = 0.25;
+const SAME_CELL_GAP = 0.9;
+const COLUMN_SNAP = 1.2;
+const CONTINUATION_GAP = 1.9;
+// A column needs cells on this share of the table's lines to count.
+const COLUMN_SUPPORT = 0.3;
+
+const NUMERIC = /^\$?-?[\d,]+(\.\d+)?$/;
+
+// A page with less text than this is a scan, perhaps with a printed footer.
+const SCANNED_BELOW = 20;
+// Images smaller than this in points are rules, bullets and icons.
+const MIN_IMAGE_SIZE = 16;
+
+type Matrix = [number, number, number, number, number, number];
+
+/** Track the transform matrix through a page's drawing operators to place its images. */
+async function readImagePlacements(page: pdfjs.PDFPageProxy, pageNumber: number) {
+  const ops = await page.getOperatorList();
+  const images: PdfImage[] = [];
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+  ops.fnArray.forEach((fn, i) => {
+    const args = ops.argsArray[i];
+    if (fn === pdfjs.OPS.save) {
+      stack.push(ctm);
+    } else if (fn === pdfjs.OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === pdfjs.OPS.transform) {
+      ctm = pdfjs.Util.transform(ctm, args) as Matrix;
+    } else if (fn === pdfjs.OPS.paintImageXObject) {
+      // Images are drawn into the unit square, so the matrix is the box.
+      const [a, b, c, d, e, f] = ctm;
+      const width = Math.hypot(a, b);
+      const height = Math.hypot(c, d);
+      if (width < MIN_IMAGE_SIZE || height < MIN_IMAGE_SIZE) return;
+      images.push({
+        page: pageNumber,
+        name: args[0],
+        x: Math.min(e, e + a + c),
+        y: Math.min(f, f + b + d),
+        width,
+        height,
+      });
+    }
+  });
+  return images;
+}
+
+async function readPages(buffer: Buffer) {
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const pages: TextRun[][] = [];
+    const images: PdfImage[] = [];
+    for (let n = 1; n <= doc.numPages; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      const runs: TextRun[] = [];
+      for (const item of content.items) {
+        if (!("str" in item) || !item.str.trim()) continue;
+        const [, , , d, x, y] = item.transform as number[];
+        const size = Math.abs(d) || item.height || 10;
+        runs.push({ x, y, right: x + item.width, size, text: item.str });
+      }
+      pages.push(runs);
+      images.push(...(await readImagePlacements(page, n)));
+      page.cleanup();
+    }
+    return { pages, images };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/** Group runs into visual lines, top to bottom, and runs into cells. */
+export function buildLines(runs: TextRun[], page: number): Line[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: { y: number; size: number; runs: TextRun[] }[] = [];
+
+  for (const run of sorted) {
+    const line = lines.find(
+      (l) => Math.abs(l.y - run.y) <= Math.max(l.size, run.size) * SAME_LINE
+    );
+    if (line) {
+      line.runs.push(run);
+      line.size = Math.max(line.size, run.size);
+    } else {
+      lines.push({ y: run.y, size: run.size, runs: [run] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map((line) => {
+      const cells: Cell[] = [];
+      for (const run of line.runs.sort((a, b) => a.x - b.x)) {
+        const last = cells[cells.length - 1];
+        const gap = last ? run.x - last.right : Infinity;
+        if (last && gap <= run.size * SAME_CELL_GAP) {
+          // pdf.js splits words into separate runs; keep a space between them.
+          const joiner = gap > run.size * 0.1 && !last.text.endsWith(" ") ? " " : "";
+          last.text += joiner + run.text;
+          last.right = run.right;
+        } else {
+          cells.push({ x: run.x, right: run.right, text: run.text });
+        }
+      }
+      for (const cell of cells) cell.text = cell.text.replace(/\s+/g, " ").trim();
+      return { page, y: line.y, size: line.size, cells };
+    });
+}
+
+/**
+ * Column left edges shared by the table lines across every page. A quote
+ * table repeats the same x positions row after row, so any x that starts a
+ * cell on enough multi-cell lines is a column.
+ */
+export function findColumns(lines: Line[]) {
+  const tableLines = lines.filter((l) => l.cells.length >= 3);
+  if (tableLines.length === 0) return [];
+
+  const clusters: { x: number; lines: Set<Line>; size: number }[] = [];
+  for (const line of tableLines) {
+    for (const cell of line.cells) {
+      const cluster = clusters.find(
+        (c) => Math.abs(c.x - cell.x) <= line.size * COLUMN_SNAP
+      );
+      if (cluster) {
+        cluster.lines.add(line);
+      } else {
+        clusters.push({ x: cell.x, lines: new Set([line]), size: line.size });
+      }
+    }
+  }
+
+  return clusters
+    .filter((c) => c.lines.size >= tableLines.length * COLUMN_SUPPORT)
+    .map((c) => c.x)
+    .sort((a, b) => a - b);
+}
+
+function assignColumns(line: Line, columns: number[]) {
+  const cells = columns.map(() => "");
+  for (const cell of line.cells) {
+    // Right-aligned numbers start off their column's edge; take the column
+    // whose left edge is nearest.
+    let index = 0;
+    for (let i = 1; i < columns.length; i++) {
+      if (Math.abs(columns[i] - cell.x) < Math.abs(columns[index] - cell.x)) index = i;
+    }
+    cells[index] = cells[index] ? `${cells[index]} ${cell.text}` : cell.text;
+  }
+  return cells;
+}
+
+/**
+ * Rebuild table rows from line cells. A line with nothing in the first
+ * column, close below the previous row, is a wrapped continuation of that
+ * row's cells (long descriptions). The same applies to the first lines of
+ * a page when the table carries over from the previous page. Header lines
+ * repeated on later pages are dropped.
+ */
+export function buildRows(lines: Line[], columns: number[], ocrPages: number[]): PdfRow[] {
+  const ocr = (line: Line) => ocrPages.includes(line.page);
+  if (columns.length === 0) {
+    return lines.map((l) => ({
+      page: l.page,
+      cells: l.cells.map((c) => c.text),
+      ocr: ocr(l),
+      top: l.y + l.size,
+      bottom: l.y - l.size * DESCENDER,
+    }));
+  }
+
+  const rows: PdfRow[] = [];
+  const seenHeaders = new Set<string>();
+  let previous: { row: PdfRow; line: Line } | null = null;
+
+  for (const line of lines) {
+    const cells = assignColumns(line, columns);
+    const key = cells.join("|").toLowerCase();
+
+    // The first multi-column line is the header; repeats of it are noise.
+    if (
+      seenHeaders.size === 0 &&
+      line.cells.length >= 3 &&
+      !/\d/.test(key)
+    ) {
+      seenHeaders.add(key);
+    } else if (seenHeaders.has(key)) {
+      continue;
+    }
+
+    // Wrapped text only: a line carrying a number (a totals line, say) or
+    // landing in a numeric column starts its own row.
+    const continuesPrevious =
+      previous !== null &&
+      !cells[0] &&
+      line.cells.length < columns.length &&
+      cells.every(
+        (text, i) =>
+          !text || (!NUMERIC.test(text) && !NUMERIC.test(previous!.row.cells[i]))
+      ) &&
+      (line.page !== previous.line.page ||
+        previous.line.y - line.y <= line.size * CONTINUATION_GAP);
+
+    if (continuesPrevious && previous) {
+      previous.row.cells = previous.row.cells.map((text, i) =>
+        cells[i] ? (text ? `${text} ${cells[i]}` : cells[i]) : text
+      );
+      if (line.page === previous.row.page) {
+        previous.row.bottom = line.y - line.size * DESCENDER;
+      }
+      previous.line = line;
+      continue;
+    }
+
+    const row = {
+      page: line.page,
+      cells,
+      ocr: ocr(line),
+      top: line.y + line.size,
+      bottom: line.y - line.size * DESCENDER,
+    };
+    rows.push(row);
+    previous = { row, line };
+  }
+
+  return rows;
+}
+
+/**
+ * Read a PDF's text with positions and rebuild its table: rows, columns,
+ * wrapped cells and tables running over several pages. Scanned pages with
+ * no text layer are read with OCR and listed in `ocrPages`.
+ */
+export async function readPdfLayout(buffer: Buffer): Promise<PdfLayout> {
+  const { pages, images } = await readPages(buffer);
+
+  const scanned = pages.flatMap((runs, i) =>
+    runs.reduce((n, run) => n + run.text.trim().length, 0) < SCANNED_BELOW ? [i + 1] : []
+  );
+  if (scanned.length > 0) {
+    for (const [page, runs] of await ocrPages(buffer, scanned)) {
+      pages[page - 1] = runs;
+    }
+  }
+
+  const lines = pages.flatMap((runs, i) => buildLines(runs, i + 1));
+  const rows = buildRows(lines, findColumns(lines), scanned);
+
+  return {
+    pageCount: pages.length,
+    text: lines.map((l) => l.cells.map((c) => c.text).join("  ")).join("\n"),
+    rows,
+    ocrPages: scanned,
+    images: images.filter((image) => !scanned.includes(image.page)),
+  };
+}
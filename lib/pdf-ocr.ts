@@ -0,0 +1,68 @@
+import eng from "@tesseract.js-data/eng";
+import { PDFParse } from "pdf-parse";
+import { createWorker, OEM } from "tesseract.js";
+import type { TextRun } from "@/lib/pdf-layout";
+
+// pdf.js renders at 72 dpi; 3x gives about 216 dpi, enough for quote print.
+const RENDER_SCALE = 3;
+// Tesseract word confidence (0–100) below which a word is treated as a speck.
+const MIN_WORD_CONFIDENCE = 30;
+
+/**
+ * Render the given pages and read them with Tesseract. Runs are in PDF
+ * points, like pdf.js text runs, so the layout code treats both the same.
+ * The English model ships in node_modules; nothing is downloaded.
+ */
+export async function ocrPages(buffer: Buffer, pageNumbers: number[]) {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  const worker = await createWorker(eng.code, OEM.LSTM_ONLY, {
+    langPath: eng.langPath,
+    gzip: eng.gzip,
+    cacheMethod: "none",
+  });
+
+  try {
+    const shots = await parser.getScreenshot({
+      partial: pageNumbers,
+      scale: RENDER_SCALE,
+      imageBuffer: true,
+      imageDataUrl: false,
+    });
+
+    const pages = new Map<number, TextRun[]>();
+    for (const shot of shots.pages) {
+      const { data } = await worker.recognize(
+        Buffer.from(shot.data),
+        {},
+        { blocks: true }
+      );
+
+      const runs: TextRun[] = [];
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            // Words in a line share its baseline and height so they land on
+            // one visual line, whatever their ascenders.
+            const y = (shot.height - line.baseline.y0) / shot.scale;
+            const size = (line.bbox.y1 - line.bbox.y0) / shot.scale;
+            for (const word of line.words) {
+              if (!word.text.trim() || word.confidence < MIN_WORD_CONFIDENCE) continue;
+              runs.push({
+                x: word.bbox.x0 / shot.scale,
+                y,
+                right: word.bbox.x1 / shot.scale,
+                size,
+                text: word.text,
+              });
+            }
+          }
+        }
+      }
+      pages.set(shot.pageNumber, runs);
+    }
+    return pages;
+  } finally {
+    await worker.terminate();
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+
+import { parsePrice } from "@/lib/pricing";
+
+describe("parsePrice", () => {
+  it("reads plain numbers", () => {
+    expect(parsePrice("12.50")).toBe(12.5);
+    expect(parsePrice(" 40 ")).toBe(40);
+    expect(parsePrice(0)).toBe(0);
+  });
+
+  it("treats an empty value as no price", () => {
+    expect(parsePrice("")).toBeNull();
+    expect(parsePrice("   ")).toBeNull();
+    expect(parsePrice(null)).toBeNull();
+    expect(parsePrice(undefined)).toBeNull();
+  });
+
+  it("flags anything else instead of clearing the price", () => {
+    expect(parsePrice("12,50")).toBeNaN();
+    expect(parsePrice("abc")).toBeNaN();
+    expect(parsePrice("Infinity")).toBeNaN();
+  });
+});
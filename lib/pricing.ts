@@ -0,0 +1,94 @@
+import type { Prisma } from "@prisma/client";
+
+export const PRICE_SOURCES = {
+  manual: "manual",
+  bwaImport: "BWA import",
+  spreadsheetImport: "Spreadsheet import",
+} as const;
+
+export type PriceTier = "trade" | "retail";
+
+export type PriceEntry = {
+  source: string;
+  supplier?: string | null;
+  tier: PriceTier;
+  price: number;
+  effectiveAt?: Date;
+};
+
+type PriceClient = Pick<Prisma.TransactionClient, "productPrice">;
+
+/**
+ * A price typed into a form: null when left empty, NaN when it isn't a
+ * plain number (callers refuse those rather than clearing the price).
+ */
+export function parsePrice(raw: unknown) {
+  if (raw === null || raw === undefined) return null;
+  const str = raw.toString().trim();
+  if (!str) return null;
+  const price = Number(str);
+  return Number.isFinite(price) ? price : NaN;
+}
+
+export function parsePriceTier(raw: unknown): PriceTier {
+  return raw === "retail" ? "retail" : "trade";
+}
+
+/**
+ * Append a history row for a product. Callers are responsible for keeping
+ * Product.price in sync (it holds the most recent price of either tier).
+ */
+export async function recordPrice(
+  client: PriceClient,
+  productId: string,
+  entry: PriceEntry
+) {
+  return client.productPrice.create({
+    data: {
+      productId,
+      source: entry.source,
+      supplier: entry.supplier || null,
+      effectiveAt: entry.effectiveAt ?? new Date(),
+      tradePrice: entry.tier === "trade" ? entry.price : null,
+      retailPrice: entry.tier === "retail" ? entry.price : null,
+    },
+  });
+}
+
+/** Include clause returning only the latest history row of a product. */
+export const latestPriceInclude = {
+  prices: {
+    orderBy: { effectiveAt: "desc" as const },
+    take: 1,
+  },
+};
+
+export function priceChanged(
+  current: Prisma.Decimal | null | undefined,
+  next: number | null
+) {
+  if (next === null) return false;
+  return current === null || current === undefined || current.toNumber() !== next;
+}
+
+// Catalog and selection prices are entered ex GST.
+export const GST_RATE = 0.1;
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Read a number out of free-text price or quantity input ("$1,250.00",
+ * "2 boxes"). Returns null when there is no number to read.
+ */
+export function parseAmount(raw: unknown): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  const match = raw?.toString().replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+export function gstTotals(subtotal: number) {
+  const gst = roundCents(subtotal * GST_RATE);
+  return { subtotal: roundCents(subtotal), gst, total: roundCents(subtotal + gst) };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { createRateLimiter, MemoryRateLimitStore } from "@/lib/rate-limit";
+
+const WINDOW_MS = 60_000;
+
+const limiter = (rule: { limit: number; backoffAfter?: number }) => {
+  const store = new MemoryRateLimitStore();
+  return { store, limiter: createRateLimiter("test", { windowMs: WINDOW_MS, ...rule }, store) };
+};
+
+describe("createRateLimiter attempt", () => {
+  it("lets only `limit` of a burst of tries through", async () => {
+    const { store, limiter: tries } = limiter({ limit: 3 });
+    const results = await Promise.all(Array.from({ length: 10 }, () => tries.attempt("sam")));
+
+    expect(results.filter((r) => !r.limited)).toHaveLength(3);
+    // Refused tries never ran, so only the three are counted.
+    expect((await store.get("test:sam"))?.count).toBe(3);
+  });
+
+  it("applies the backoff to tries that arrive together", async () => {
+    const { limiter: tries } = limiter({ limit: 10, backoffAfter: 3 });
+    const results = await Promise.all(Array.from({ length: 10 }, () => tries.attempt("sam")));
+
+    expect(results.filter((r) => !r.limited)).toHaveLength(3);
+    expect(results.find((r) => r.limited)?.retryAfterMs).toBe(1000);
+  });
+
+  it("gives back a try with undo", async () => {
+    const { store, limiter: tries } = limiter({ limit: 1 });
+    expect((await tries.attempt("sam")).limited).toBe(false);
+    expect((await tries.attempt("sam")).limited).toBe(true);
+
+    await tries.undo("sam");
+    expect((await store.get("test:sam"))?.count).toBe(0);
+    expect((await tries.attempt("sam")).limited).toBe(false);
+  });
+
+  it("keeps keys apart", async () => {
+    const { limiter: tries } = limiter({ limit: 1 });
+    await tries.attempt("sam");
+    expect((await tries.attempt("sam")).limited).toBe(true);
+    expect((await tries.attempt("alex")).limited).toBe(false);
+  });
+});
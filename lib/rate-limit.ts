@@ -0,0 +1,244 @@
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Fixed-window hit counters with optional backoff, for throttling logins and
+ * the public forms. Counters live in memory by default; set
+ * RATE_LIMIT_STORE=database so every instance shares them.
+ */
+
+export type RateLimitEntry = {
+  count: number;
+  /** Epoch ms of the latest hit. */
+  lastAt: number;
+  /** Epoch ms when the window ends and the count starts again. */
+  expiresAt: number;
+};
+
+export interface RateLimitStore {
+  /** The live entry for a key, or null when there is none or it expired. */
+  get(key: string): Promise<RateLimitEntry | null>;
+  /** Count one hit, starting a new window when the old one has expired. */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  /** Take back one hit, leaving the window and last hit time as they are. */
+  decrement(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// Sweep expired keys once the map grows past this, so it can't grow forever.
+const MEMORY_SWEEP_SIZE = 10_000;
+// Share of database hits that also delete expired rows.
+const DATABASE_SWEEP_CHANCE = 0.01;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  // Synchronous, so a read and the write after it can't interleave with
+  // another request's.
+  private live(key: string) {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry : null;
+  }
+
+  async get(key: string) {
+    return this.live(key);
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    if (this.entries.size > MEMORY_SWEEP_SIZE) {
+      for (const [k, e] of this.entries) {
+        if (e.expiresAt <= now) this.entries.delete(k);
+      }
+    }
+
+    const live = this.live(key);
+    const entry = live
+      ? { ...live, count: live.count + 1, lastAt: now }
+      : { count: 1, lastAt: now, expiresAt: now + windowMs };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async decrement(key: string) {
+    const live = this.live(key);
+    if (live && live.count > 0) this.entries.set(key, { ...live, count: live.count - 1 });
+  }
+
+  async reset(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+export class DatabaseRateLimitStore implements RateLimitStore {
+  async get(key: string) {
+    const row = await prisma.rateLimit.findUnique({ where: { key } });
+    if (!row || row.expiresAt.getTime() <= Date.now()) return null;
+    return toEntry(row);
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + windowMs);
+    // One statement so concurrent hits on other instances can't lose counts.
+    const [row] = await prisma.$queryRaw<
+      { count: number; lastAt: Date; expiresAt: Date }[]
+    >`
+      INSERT INTO "RateLimit" ("key", "count", "lastAt", "expiresAt")
+      VALUES (${key}, 1, ${now}, ${expiresAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "RateLimit"."expiresAt" <= ${now} THEN 1 ELSE "RateLimit"."count" + 1 END,
+        "expiresAt" = CASE WHEN "RateLimit"."expiresAt" <= ${now} THEN ${expiresAt} ELSE "RateLimit"."expiresAt" END,
+        "lastAt" = ${now}
+      RETURNING "count", "lastAt", "expiresAt"
+    `;
+    if (Math.random() < DATABASE_SWEEP_CHANCE) {
+      await prisma.rateLimit.deleteMany({ where: { expiresAt: { lt: now } } });
+    }
+    return toEntry(row);
+  }
+
+  async decrement(key: string) {
+    await prisma.rateLimit.updateMany({
+      where: { key, count: { gt: 0 } },
+      data: { count: { decrement: 1 } },
+    });
+  }
+
+  async reset(key: string) {
+    await prisma.rateLimit.deleteMany({ where: { key } });
+  }
+}
+
+function toEntry(row: { count: number; lastAt: Date; expiresAt: Date }): RateLimitEntry {
+  return {
+    count: Number(row.count),
+    lastAt: row.lastAt.getTime(),
+    expiresAt: row.expiresAt.getTime(),
+  };
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore =
+      process.env.RATE_LIMIT_STORE === "database"
+        ? new DatabaseRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return defaultStore;
+}
+
+export type RateLimitRule = {
+  /** Hits allowed per window; further hits are refused until it ends. */
+  limit: number;
+  windowMs: number;
+  /**
+   * Hits allowed before backoff starts: after that each hit must wait
+   * 1s, 2s, 4s… after the previous one. Omit for a plain limit.
+   */
+  backoffAfter?: number;
+};
+
+export type RateLimitResult = {
+  limited: boolean;
+  /** How long until the key may try again; 0 when not limited. */
+  retryAfterMs: number;
+};
+
+const OPEN: RateLimitResult = { limited: false, retryAfterMs: 0 };
+
+function evaluate(rule: RateLimitRule, entry: RateLimitEntry | null, now: number): RateLimitResult {
+  if (!entry) return OPEN;
+
+  if (entry.count >= rule.limit) {
+    return { limited: true, retryAfterMs: entry.expiresAt - now };
+  }
+
+  if (rule.backoffAfter !== undefined && entry.count >= rule.backoffAfter) {
+    const delay = 1000 * 2 ** (entry.count - rule.backoffAfter);
+    const waitUntil = Math.min(entry.lastAt + delay, entry.expiresAt);
+    if (now < waitUntil) {
+      return { limited: true, retryAfterMs: waitUntil - now };
+    }
+  }
+
+  return OPEN;
+}
+
+/**
+ * A named limiter. `consume` checks and counts a hit in one go. For limits
+ * that only count failures, like logins, `attempt` counts the try before the
+ * work it guards and `undo` gives it back once it turns out to be good, so
+ * concurrent tries can't all pass a check made before any of them failed.
+ */
+export function createRateLimiter(
+  name: string,
+  rule: RateLimitRule,
+  store: RateLimitStore = getRateLimitStore()
+) {
+  const storeKey = (key: string) => `${name}:${key}`;
+
+  return {
+    async check(key: string) {
+      return evaluate(rule, await store.get(storeKey(key)), Date.now());
+    },
+
+    async consume(key: string) {
+      const before = evaluate(rule, await store.get(storeKey(key)), Date.now());
+      if (before.limited) return before;
+      await store.increment(storeKey(key), rule.windowMs);
+      return OPEN;
+    },
+
+    async attempt(key: string) {
+      const now = Date.now();
+      const seen = await store.get(storeKey(key));
+      const before = evaluate(rule, seen, now);
+      if (before.limited) return before;
+
+      // The count as of this hit decides; the read above only saves a write
+      // for callers who are already limited.
+      const entry = await store.increment(storeKey(key), rule.windowMs);
+      let result = OPEN;
+      if (entry.count > rule.limit) {
+        result = { limited: true, retryAfterMs: entry.expiresAt - now };
+      } else if (
+        rule.backoffAfter !== undefined &&
+        entry.count > rule.backoffAfter &&
+        entry.count > (seen?.count ?? 0) + 1
+      ) {
+        // Other tries were counted between the read and this hit, so the
+        // previous one was moments ago and the backoff applies.
+        result = {
+          limited: true,
+          retryAfterMs: Math.min(
+            1000 * 2 ** (entry.count - 1 - rule.backoffAfter),
+            entry.expiresAt - now
+          ),
+        };
+      }
+      // A refused try never ran, so it doesn't count.
+      if (result.limited) await store.decrement(storeKey(key));
+      return result;
+    },
+
+    async undo(key: string) {
+      await store.decrement(storeKey(key));
+    },
+
+    async reset(key: string) {
+      await store.reset(storeKey(key));
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+/** The caller's IP as reported by the proxy in front of the app. */
+export function clientIp(request: Request) {
+  const forwarded = request.headers.get("x-forwarded-for");
+  return forwarded
+    ? forwarded.split(",")[0].trim()
+    : request.headers.get("x-real-ip") || "unknown";
+}
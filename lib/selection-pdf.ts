@@ -0,0 +1,286 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+
+// Same data the Word template receives, so both outputs stay in step.
+export type SelectionDocumentProduct = {
+  code: string;
+  description: string;
+  "manufacturer-description": string;
+  "product-details": string;
+  "area-description": string;
+  quantity: string;
+  price: string;
+  "priced-as-of": string;
+  notes: string;
+  image: string; // base64
+};
+
+export type SelectionDocumentData = {
+  address: string;
+  date: string;
+  "prices-as-of": string;
+  "contact-name": string;
+  company: string;
+  "phone-number": string;
+  email: string;
+  categories: {
+    "category-name": string;
+    products: SelectionDocumentProduct[];
+  }[];
+};
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const IMAGE_SIZE = 99; // 132px in the Word template at 96dpi
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TEXT_X = MARGIN + IMAGE_SIZE + 16;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN - TEXT_X;
+
+const ACCENT = rgb(0, 0.94, 1);
+const DARK = rgb(0.21, 0.27, 0.31);
+const MUTED = rgb(0.4, 0.4, 0.4);
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+/**
+ * The standard PDF fonts only cover WinAnsi. Anything outside it (emoji,
+ * arrows, CJK) is replaced so a stray character can't abort the render.
+ */
+function encodable(font: PDFFont, text: string) {
+  let out = "";
+  for (const char of text.replace(/\r/g, "")) {
+    try {
+      font.encodeText(char);
+      out += char;
+    } catch {
+      out += "?";
+    }
+  }
+  return out;
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number) {
+  const lines: string[] = [];
+  for (const paragraph of encodable(font, text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Break words longer than a full line (long codes, URLs).
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) {
+          cut--;
+        }
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+async function embedImage(pdf: PDFDocument, base64: string) {
+  if (!base64) return null;
+  const bytes = Buffer.from(base64, "base64");
+  try {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+  } catch {
+    // Corrupt image data: render the row without it.
+  }
+  return null;
+}
+
+class PdfWriter {
+  page: PDFPage;
+  y: number;
+
+  constructor(private pdf: PDFDocument, private fonts: Fonts) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height >= MARGIN) return;
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  text(
+    value: string,
+    options: { x?: number; size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; width?: number } = {}
+  ) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.fonts.bold : this.fonts.regular;
+    const lines = wrapText(value, font, size, options.width ?? CONTENT_WIDTH);
+    for (const line of lines) {
+      this.ensureSpace(size + 4);
+      this.y -= size + 4;
+      this.page.drawText(line, {
+        x: options.x ?? MARGIN,
+        y: this.y,
+        size,
+        font,
+        color: options.color ?? DARK,
+      });
+    }
+  }
+
+  measure(value: string, size: number, bold: boolean, width: number) {
+    const font = bold ? this.fonts.bold : this.fonts.regular;
+    return wrapText(value, font, size, width).length * (size + 4);
+  }
+}
+
+function productLines(product: SelectionDocumentProduct) {
+  const lines: { text: string; bold?: boolean; color?: ReturnType<typeof rgb> }[] = [
+    { text: product.code, bold: true },
+  ];
+  if (product.description) lines.push({ text: product.description });
+  if (product["manufacturer-description"]) {
+    lines.push({ text: product["manufacturer-description"], color: MUTED });
+  }
+  if (product["product-details"]) {
+    lines.push({ text: product["product-details"], color: MUTED });
+  }
+
+  const facts = [
+    product["area-description"] && `Area: ${product["area-description"]}`,
+    product.quantity && `Qty: ${product.quantity}`,
+    product.price && `Price: $${product.price}`,
+  ].filter(Boolean);
+  if (facts.length) lines.push({ text: facts.join("   ") });
+  if (product.notes) lines.push({ text: `Notes: ${product.notes}`, color: MUTED });
+
+  return lines;
+}
+
+/**
+ * Render a product selection as a PDF entirely in-process: header with the
+ * address, date and contact block, then each category with its products and
+ * thumbnails, matching the Word template's layout.
+ */
+export async function renderSelectionPdf(data: SelectionDocumentData) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Product Selection - ${data.address}`);
+  pdf.setProducer("PdCon");
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+  const writer = new PdfWriter(pdf, fonts);
+
+  writer.text("PRODUCT SELECTION", { size: 18, bold: true });
+  writer.y -= 4;
+  writer.text(data.address, { size: 13, bold: true });
+  if (data.date) writer.text(data.date, { color: MUTED });
+  if (data["prices-as-of"]) {
+    writer.text(`Prices as of ${data["prices-as-of"]}`, { color: MUTED });
+  }
+
+  const contact = [
+    data["contact-name"] && `Contact: ${data["contact-name"]}`,
+    data.company && `Company: ${data.company}`,
+    data["phone-number"] && `Phone: ${data["phone-number"]}`,
+    data.email && `Email: ${data.email}`,
+  ].filter(Boolean) as string[];
+  if (contact.length) {
+    writer.y -= 8;
+    for (const line of contact) writer.text(line);
+  }
+
+  const images = new Map<SelectionDocumentProduct, PDFImage | null>();
+  for (const category of data.categories) {
+    for (const product of category.products) {
+      images.set(product, await embedImage(pdf, product.image));
+    }
+  }
+
+  for (const category of data.categories) {
+    writer.ensureSpace(28 + IMAGE_SIZE);
+    writer.y -= 20;
+    writer.page.drawRectangle({
+      x: MARGIN,
+      y: writer.y - 6,
+      width: CONTENT_WIDTH,
+      height: 22,
+      color: ACCENT,
+    });
+    writer.page.drawText(encodable(fonts.bold, category["category-name"]), {
+      x: MARGIN + 8,
+      y: writer.y,
+      size: 11,
+      font: fonts.bold,
+      color: DARK,
+    });
+    writer.y -= 14;
+
+    for (const product of category.products) {
+      const lines = productLines(product);
+      const textHeight = lines.reduce(
+        (sum, line) => sum + writer.measure(line.text, 10, !!line.bold, TEXT_WIDTH),
+        0
+      );
+      const rowHeight = Math.max(IMAGE_SIZE, textHeight) + 12;
+
+      writer.ensureSpace(rowHeight);
+      const top = writer.y - 6;
+
+      const image = images.get(product);
+      if (image) {
+        const scale = Math.min(IMAGE_SIZE / image.width, IMAGE_SIZE / image.height);
+        writer.page.drawImage(image, {
+          x: MARGIN,
+          y: top - image.height * scale,
+          width: image.width * scale,
+          height: image.height * scale,
+        });
+      } else {
+        writer.page.drawRectangle({
+          x: MARGIN,
+          y: top - IMAGE_SIZE,
+          width: IMAGE_SIZE,
+          height: IMAGE_SIZE,
+          borderColor: rgb(0.85, 0.85, 0.85),
+          borderWidth: 1,
+        });
+      }
+
+      writer.y = top;
+      for (const line of lines) {
+        writer.text(line.text, {
+          x: TEXT_X,
+          width: TEXT_WIDTH,
+          bold: line.bold,
+          color: line.color,
+        });
+      }
+
+      writer.y = top - rowHeight + 6;
+      writer.page.drawLine({
+        start: { x: MARGIN, y: writer.y },
+        end: { x: PAGE_WIDTH - MARGIN, y: writer.y },
+        thickness: 0.5,
+        color: rgb(0.9, 0.9, 0.9),
+      });
+    }
+  }
+
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,177 @@
+import { Prisma } from "@prisma/client";
+import crypto from "crypto";
+
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+
+export const APPROVAL_STATUSES = ["pending", "approved", "rejected"] as const;
+export type ApprovalStatus = (typeof APPROVAL_STATUSES)[number];
+
+// One product as ProductSheetApp posts it to the generate and export routes.
+export type IncomingProduct = {
+  category?: string;
+  code?: string;
+  description?: string;
+  manufacturerDescription?: string;
+  productDetails?: string;
+  areaDescription?: string;
+  quantity?: string;
+  price?: string;
+  notes?: string;
+  image?: string | null; // base64
+  imageUrl?: string | null; // public URL to fetch
+  pricedAt?: string | null; // effective date of the quoted price
+};
+
+export type SelectionItemInput = {
+  productId?: string | null;
+  code?: string;
+  areaName?: string;
+  description?: string;
+  manufacturerDescription?: string | null;
+  productDetails?: string | null;
+  price?: string | number | null;
+  pricedAt?: string | null;
+  imageUrl?: string | null;
+  quantity?: string;
+  notes?: string;
+};
+
+export const selectionInclude = {
+  items: { orderBy: { position: "asc" as const } },
+  revisions: {
+    orderBy: { number: "desc" as const },
+    select: {
+      id: true,
+      number: true,
+      createdAt: true,
+      createdBy: true,
+      fileName: true,
+    },
+  },
+};
+
+function optionalString(value: unknown) {
+  const str = value === null || value === undefined ? "" : value.toString().trim();
+  return str || null;
+}
+
+/**
+ * Validate a selection payload from ProductSheetApp. Returns the Selection
+ * columns plus item rows ready for `createMany`, or an error message.
+ */
+export function parseSelectionBody(body: any):
+  | {
+      data: Omit<Prisma.SelectionCreateInput, "items" | "revisions">;
+      items: Omit<Prisma.SelectionItemCreateManyInput, "selectionId">[];
+    }
+  | { error: string } {
+  const address = body?.address?.toString().trim();
+  if (!address) return { error: "Address is required" };
+
+  if (body?.items !== undefined && !Array.isArray(body.items)) {
+    return { error: "Items must be an array" };
+  }
+
+  const items = ((body?.items ?? []) as SelectionItemInput[]).map(
+    (item, position) => {
+      const pricedAt = item?.pricedAt ? new Date(item.pricedAt) : null;
+      return {
+        productId: optionalString(item?.productId),
+        position,
+        code: item?.code?.toString().trim() || "",
+        areaName: item?.areaName?.toString().trim() || "Other",
+        description: item?.description?.toString() || "",
+        manufacturerDescription: optionalString(item?.manufacturerDescription),
+        productDetails: optionalString(item?.productDetails),
+        price: optionalString(item?.price),
+        pricedAt: pricedAt && !Number.isNaN(pricedAt.getTime()) ? pricedAt : null,
+        imageUrl: optionalString(item?.imageUrl),
+        quantity: item?.quantity?.toString() || "",
+        notes: item?.notes?.toString() || "",
+      };
+    }
+  );
+
+  if (items.some((item) => !item.code)) {
+    return { error: "Every item needs a product code" };
+  }
+
+  return {
+    data: {
+      address,
+      date: optionalString(body?.date),
+      contactName: optionalString(body?.contactName),
+      company: optionalString(body?.company),
+      phoneNumber: optionalString(body?.phoneNumber),
+      email: optionalString(body?.email),
+    },
+    items,
+  };
+}
+
+// Concurrent generates can pick the same next number; the loser retries.
+const REVISION_NUMBER_ATTEMPTS = 5;
+
+/**
+ * Store a rendered document against a selection and return the new revision.
+ * Revision numbers are per selection and start at 1. The file is keyed by
+ * the revision's own id, so a revision that fails to save never replaces
+ * another's document.
+ */
+export async function recordSelectionRevision(params: {
+  selectionId: string;
+  createdBy: string;
+  file: Buffer;
+  fileName: string;
+  contentType: string;
+  snapshot: Prisma.InputJsonValue;
+}) {
+  const id = crypto.randomUUID();
+  const extension = params.fileName.split(".").pop() || "bin";
+  const fileKey = `selections/${params.selectionId}/revision-${id}.${extension}`;
+
+  const storage = getStorage();
+  await storage.put(fileKey, params.file, {
+    contentType: params.contentType,
+    isPublic: false,
+  });
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await prisma.selectionRevision.findFirst({
+        where: { selectionId: params.selectionId },
+        orderBy: { number: "desc" },
+        select: { number: true },
+      });
+
+      try {
+        return await prisma.selectionRevision.create({
+          data: {
+            id,
+            selectionId: params.selectionId,
+            number: (latest?.number ?? 0) + 1,
+            createdBy: params.createdBy,
+            fileKey,
+            fileName: params.fileName,
+            contentType: params.contentType,
+            snapshot: params.snapshot,
+          },
+        });
+      } catch (error) {
+        const taken =
+          error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+        if (!taken || attempt >= REVISION_NUMBER_ATTEMPTS) throw error;
+      }
+    }
+  } catch (error) {
+    await storage.delete(fileKey).catch((cleanup) => {
+      console.error(`Failed to remove unrecorded revision file ${fileKey}:`, cleanup);
+    });
+    throw error;
+  }
+}
+
+export function createShareToken() {
+  return crypto.randomBytes(24).toString("base64url");
+}
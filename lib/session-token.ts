@@ -0,0 +1,201 @@
+import crypto from "crypto";
+
+import type { Role } from "@/lib/users";
+
+/**
+ * Signing and checking the session cookie. Kept apart from lib/auth so the
+ * request proxy can check a session without loading Prisma or next/headers.
+ */
+
+export type SessionPayload = {
+  /** The Session row; the token only works while that row is live. */
+  sid: string;
+  userId: string;
+  username: string;
+  role: Role;
+  exp: number;
+};
+
+export const SESSION_COOKIE_NAME = "admin_session";
+
+/** Signing keys are missing, too weak or malformed; no sessions can be issued. */
+export class SessionKeyError extends Error {}
+
+type SessionKey = { id: string; secret: string };
+
+const MIN_SECRET_LENGTH = 32;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * The signing keys from env. ADMIN_SESSION_KEYS is a comma-separated list of
+ * `id:secret`: the first key signs new tokens and every listed key verifies.
+ * To rotate, put a new key first, and once tokens signed with the old one
+ * have expired (7 days at most), remove it. A lone ADMIN_SESSION_SECRET is
+ * read as one key with id "default".
+ */
+export function parseSessionKeys(env: NodeJS.ProcessEnv = process.env): SessionKey[] {
+  const keys: SessionKey[] = env.ADMIN_SESSION_KEYS
+    ? env.ADMIN_SESSION_KEYS.split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const colon = entry.indexOf(":");
+          if (colon === -1) {
+            throw new SessionKeyError("ADMIN_SESSION_KEYS entries must be id:secret");
+          }
+          return { id: entry.slice(0, colon).trim(), secret: entry.slice(colon + 1).trim() };
+        })
+    : env.ADMIN_SESSION_SECRET
+      ? [{ id: "default", secret: env.ADMIN_SESSION_SECRET }]
+      : [];
+
+  if (keys.length === 0) {
+    throw new SessionKeyError(
+      "Set ADMIN_SESSION_KEYS (or ADMIN_SESSION_SECRET) to sign admin sessions"
+    );
+  }
+
+  const ids = new Set<string>();
+  for (const { id, secret } of keys) {
+    if (!KEY_ID_PATTERN.test(id)) {
+      throw new SessionKeyError(`Session key id "${id}" must be 1-32 letters, digits, - or _`);
+    }
+    if (ids.has(id)) {
+      throw new SessionKeyError(`Session key id "${id}" is listed twice`);
+    }
+    ids.add(id);
+
+    if (
+      secret.length < MIN_SECRET_LENGTH ||
+      /^(.)\1*$/.test(secret) ||
+      secret === env.ADMIN_PASSWORD ||
+      secret === env.ADMIN_USERNAME
+    ) {
+      throw new SessionKeyError(
+        `Session key "${id}" must be a dedicated random secret of at least ${MIN_SECRET_LENGTH} characters`
+      );
+    }
+  }
+
+  return keys;
+}
+
+let loaded: { keys: SessionKey[] } | { error: SessionKeyError } | null = null;
+
+function sessionKeys(): SessionKey[] {
+  if (!loaded) {
+    try {
+      loaded = { keys: parseSessionKeys() };
+    } catch (error) {
+      if (!(error instanceof SessionKeyError)) throw error;
+      loaded = { error };
+    }
+  }
+  if ("error" in loaded) throw loaded.error;
+  return loaded.keys;
+}
+
+/** The key configuration problem, or null when sessions can be signed. Checked at startup. */
+export function sessionKeyProblem(): string | null {
+  try {
+    sessionKeys();
+    return null;
+  } catch (error) {
+    if (error instanceof SessionKeyError) return error.message;
+    throw error;
+  }
+}
+
+/**
+ * HMAC over the encoded payload. Tokens for other purposes (like the 2FA
+ * challenge) mix the purpose in, so one can never pass as another.
+ */
+function sign(secret: string, base: string, purpose?: string) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(purpose ? `${purpose}.${base}` : base)
+    .digest("hex");
+}
+
+/** `keyId.payload.signature`, signed with the first configured key. */
+function encode(payload: object, purpose?: string) {
+  const [key] = sessionKeys();
+  const base = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${key.id}.${base}.${sign(key.secret, base, purpose)}`;
+}
+
+/**
+ * The payload of a correctly signed, unexpired token, or null. Tokens signed
+ * with a key that is no longer configured are rejected.
+ */
+function decode<T extends { exp: number }>(token: unknown, purpose?: string): T | null {
+  if (!token || typeof token !== "string") return null;
+
+  const [keyId, base, signature, ...rest] = token.split(".");
+  if (!keyId || !base || !signature || rest.length > 0) return null;
+
+  let keys: SessionKey[];
+  try {
+    keys = sessionKeys();
+  } catch (error) {
+    if (error instanceof SessionKeyError) return null;
+    throw error;
+  }
+  const key = keys.find((k) => k.id === keyId);
+  if (!key) return null;
+
+  const sigBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(sign(key.secret, base, purpose));
+
+  if (
+    sigBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(sigBuffer, expectedBuffer)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(base, "base64url").toString("utf8")) as T;
+
+    if (typeof payload.exp !== "number" || Date.now() > payload.exp) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function signPayload(payload: SessionPayload): string {
+  return encode(payload);
+}
+
+export function verifySession(token?: string): SessionPayload | null {
+  const payload = decode<SessionPayload>(token);
+
+  // Tokens from before user accounts or the session table carry no user or
+  // session id; treat them as expired.
+  if (!payload || typeof payload.userId !== "string" || typeof payload.sid !== "string") {
+    return null;
+  }
+
+  return payload;
+}
+
+export type ChallengePayload = { userId: string; exp: number };
+
+const CHALLENGE_TTL_MS = 1000 * 60 * 5; // 5 minutes
+
+/**
+ * Proof that a user got their password right, handed back while they enter
+ * their authenticator code. It is not a session and can't be used as one.
+ */
+export function signChallenge(userId: string) {
+  return encode({ userId, exp: Date.now() + CHALLENGE_TTL_MS }, "2fa");
+}
+
+export function verifyChallenge(token: unknown): ChallengePayload | null {
+  const payload = decode<ChallengePayload>(token, "2fa");
+  return payload && typeof payload.userId === "string" ? payload : null;
+}
@@ -0,0 +1,40 @@
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Live sessions for the sessions page, newest activity first: the user's
+ * own, or everyone's when `userId` is omitted.
+ */
+export async function listActiveSessions(userId?: string) {
+  return prisma.session.findMany({
+    where: {
+      ...(userId ? { userId } : {}),
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastSeenAt: "desc" },
+    select: {
+      id: true,
+      createdAt: true,
+      lastSeenAt: true,
+      expiresAt: true,
+      ip: true,
+      userAgent: true,
+      user: { select: { id: true, username: true } },
+    },
+  });
+}
+
+export type ActiveSession = Awaited<ReturnType<typeof listActiveSessions>>[number];
+
+export function toSessionRow(session: ActiveSession, currentSid: string) {
+  return {
+    id: session.id,
+    username: session.user.username,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    ip: session.ip,
+    userAgent: session.userAgent,
+    current: session.id === currentSid,
+  };
+}
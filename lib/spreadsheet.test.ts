@@ -0,0 +1,75 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+
+import { toCsv, toXlsx, type ExportSheet } from "@/lib/spreadsheet";
+
+const FORMULAS = ["=1+1", "+61 400 000 000", "-2+3", "@SUM(A1)", "\tcmd", "\r=HYPERLINK()"];
+
+const sheet = (descriptions: string[]): ExportSheet => ({
+  title: "Selection",
+  columns: [{ header: "Code" }, { header: "Description" }, { header: "Total", money: true }],
+  rows: descriptions.map((description, i) => [`BW-00${i + 1}`, description, 10]),
+  subtotal: descriptions.length * 10,
+});
+
+/** The CSV's lines without the BOM, header and total rows. */
+function csvRows(buffer: Buffer, count: number) {
+  return buffer.toString("utf8").replace(/^\uFEFF/, "").split("\r\n").slice(1, count + 1);
+}
+
+describe("toCsv", () => {
+  it("prefixes formula-like text with an apostrophe", () => {
+    expect(csvRows(toCsv(sheet(FORMULAS)), FORMULAS.length)).toEqual([
+      "BW-001,'=1+1,10",
+      "BW-002,'+61 400 000 000,10",
+      "BW-003,'-2+3,10",
+      "BW-004,'@SUM(A1),10",
+      "BW-005,'\tcmd,10",
+      // The carriage return forces quoting; the apostrophe stays inside.
+      `BW-006,"'\r=HYPERLINK()",10`,
+    ]);
+  });
+
+  it("quotes a formula that also needs escaping", () => {
+    expect(csvRows(toCsv(sheet(['=HYPERLINK("x", "y")'])), 1)).toEqual([
+      `BW-001,"'=HYPERLINK(""x"", ""y"")",10`,
+    ]);
+  });
+
+  it("leaves ordinary text and negative numbers alone", () => {
+    const csv = toCsv({
+      ...sheet(["Basin mixer", "a=b", "Rail - chrome"]),
+      rows: [
+        ["BW-001", "Basin mixer", -5],
+        ["BW-002", "a=b", 10],
+        ["BW-003", "Rail - chrome", 12.5],
+      ],
+    });
+    expect(csvRows(csv, 3)).toEqual([
+      "BW-001,Basin mixer,-5",
+      "BW-002,a=b,10",
+      "BW-003,Rail - chrome,12.50",
+    ]);
+  });
+});
+
+describe("toXlsx", () => {
+  it("stores formula-like text as text cells", async () => {
+    const workbook = new ExcelJS.Workbook();
+    const file = await toXlsx(sheet([...FORMULAS, "Basin mixer"]));
+    await workbook.xlsx.load(new Uint8Array(file).buffer);
+    const worksheet = workbook.getWorksheet("Selection")!;
+
+    FORMULAS.forEach((text, i) => {
+      const cell = worksheet.getRow(i + 2).getCell(2);
+      expect(cell.type).toBe(ExcelJS.ValueType.String);
+      // XML reads a bare carriage return back as a line feed.
+      expect(cell.value).toBe(text.replace(/\r/g, "\n"));
+      expect(cell.numFmt).toBe("@");
+    });
+
+    const plain = worksheet.getRow(FORMULAS.length + 2).getCell(2);
+    expect(plain.value).toBe("Basin mixer");
+    expect(plain.numFmt).not.toBe("@");
+  });
+});
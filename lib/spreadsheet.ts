@@ -0,0 +1,196 @@
+import ExcelJS from "exceljs";
+
+import { GST_RATE, gstTotals } from "@/lib/pricing";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type SheetCell = string | number | null;
+
+export type SheetColumn = {
+  header: string;
+  width?: number;
+  money?: boolean;
+};
+
+export type ExportSheet = {
+  title: string;
+  columns: SheetColumn[];
+  rows: SheetCell[][];
+  // Sum of the line totals, ex GST. Rendered as subtotal, GST and total rows.
+  subtotal: number;
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function parseExportFormat(raw: string | null): ExportFormat | null {
+  if (!raw || raw === "csv") return "csv";
+  if (raw === "xlsx") return "xlsx";
+  return null;
+}
+
+/** Subtotal, GST and total rows, labelled in the column before the last. */
+function totalRows(sheet: ExportSheet): SheetCell[][] {
+  const { subtotal, gst, total } = gstTotals(sheet.subtotal);
+  const pad = Array<SheetCell>(Math.max(sheet.columns.length - 2, 0)).fill(null);
+  return [
+    [...pad, "Subtotal (ex GST)", subtotal],
+    [...pad, `GST (${GST_RATE * 100}%)`, gst],
+    [...pad, "Total (inc GST)", total],
+  ];
+}
+
+/**
+ * Text that Excel would run as a formula. Descriptions come from supplier
+ * PDFs, spreadsheets and client-posted bodies, so none of it is trusted.
+ */
+function isFormulaLike(value: SheetCell): value is string {
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(value);
+}
+
+function csvCell(value: SheetCell) {
+  if (value === null) return "";
+  let str = typeof value === "number" ? value.toFixed(2).replace(/\.00$/, "") : value;
+  // A leading apostrophe makes Excel read the cell as text.
+  if (isFormulaLike(value)) str = `'${str}`;
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function toCsv(sheet: ExportSheet) {
+  const lines = [
+    sheet.columns.map((c) => c.header),
+    ...sheet.rows,
+    [],
+    ...totalRows(sheet),
+  ].map((row) => row.map(csvCell).join(","));
+
+  // BOM so Excel opens the file as UTF-8.
+  return Buffer.from("\uFEFF" + lines.join("\r\n") + "\r\n", "utf8");
+}
+
+export async function toXlsx(sheet: ExportSheet) {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheet.title.slice(0, 31));
+
+  worksheet.columns = sheet.columns.map((c) => ({
+    header: c.header,
+    width: c.width ?? 16,
+    style: c.money ? { numFmt: '"$"#,##0.00' } : {},
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  for (const values of sheet.rows) {
+    const row = worksheet.addRow(values);
+    // Stored as string cells already; the text format keeps Excel from
+    // turning them into formulas when someone edits the cell.
+    values.forEach((value, i) => {
+      if (isFormulaLike(value)) row.getCell(i + 1).numFmt = "@";
+    });
+  }
+  worksheet.addRow([]);
+  for (const row of totalRows(sheet)) {
+    worksheet.addRow(row).font = { bold: true };
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export async function renderExport(sheet: ExportSheet, format: ExportFormat) {
+  return format === "xlsx" ? toXlsx(sheet) : toCsv(sheet);
+}
+
+export type SpreadsheetTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function readXlsxRows(file: Buffer) {
+  const workbook = new ExcelJS.Workbook();
+  // A plain ArrayBuffer copy: ExcelJS types its input as one, not as a Node Buffer.
+  await workbook.xlsx.load(new Uint8Array(file).buffer);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const values: string[] = [];
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      const cell = row.getCell(col);
+      // Hyperlinked cells (common for image columns) expose the URL separately.
+      const value = cell.value;
+      const link =
+        value && typeof value === "object" && "hyperlink" in value
+          ? (value as ExcelJS.CellHyperlinkValue).hyperlink
+          : null;
+      values.push((typeof link === "string" ? link : cell.text ?? "").trim());
+    }
+    rows.push(values);
+  });
+  return rows;
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX upload. The first non-empty row is
+ * taken as the header; fully blank rows are dropped.
+ */
+export async function readSpreadsheet(
+  file: Buffer,
+  fileName: string
+): Promise<SpreadsheetTable> {
+  const raw = fileName.toLowerCase().endsWith(".xlsx")
+    ? await readXlsxRows(file)
+    : parseCsv(file.toString("utf8").replace(/^\uFEFF/, ""));
+
+  const rows = raw
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some(Boolean));
+
+  const [headers = [], ...body] = rows;
+  return {
+    headers,
+    rows: body.map((row) => headers.map((_, i) => row[i] ?? "")),
+  };
+}
@@ -0,0 +1,95 @@
+import { BlobNotFoundError, del, head, list, put } from "@vercel/blob";
+
+import {
+  StorageNotFoundError,
+  type PutOptions,
+  type StorageProvider,
+  type StoredObjectInfo,
+} from "./types";
+
+/**
+ * Vercel Blob, authenticated by BLOB_READ_WRITE_TOKEN. Blob has no private
+ * access, so private puts are refused rather than published at a guessable
+ * URL; every stored object is public and signedUrl is its plain blob URL.
+ */
+export class BlobStorage implements StorageProvider {
+  readonly driver = "blob";
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  private get token() {
+    const token = this.env.BLOB_READ_WRITE_TOKEN;
+    if (!token) throw new Error("BLOB_READ_WRITE_TOKEN is not configured.");
+    return token;
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions) {
+    if (options.isPublic === false) {
+      throw new Error(
+        `Vercel Blob can't store private files (${key}); use the r2 or local storage driver.`
+      );
+    }
+    await put(key, body, {
+      access: "public",
+      contentType: options.contentType,
+      addRandomSuffix: false,
+      allowOverwrite: true,
+      token: this.token,
+    });
+  }
+
+  async get(key: string) {
+    let url: string;
+    let contentType: string;
+    try {
+      ({ url, contentType } = await head(key, { token: this.token }));
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) throw new StorageNotFoundError(key);
+      throw error;
+    }
+
+    const resp = await fetch(url, { cache: "no-store" });
+    if (resp.status === 404) throw new StorageNotFoundError(key);
+    if (!resp.ok) throw new Error(`Blob download failed (${resp.status})`);
+
+    return {
+      body: Buffer.from(await resp.arrayBuffer()),
+      contentType: contentType || "application/octet-stream",
+    };
+  }
+
+  async delete(key: string) {
+    await del(key, { token: this.token });
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObjectInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix, cursor, token: this.token });
+      for (const blob of page.blobs) {
+        objects.push({ key: blob.pathname, size: blob.size, updatedAt: blob.uploadedAt });
+      }
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Blob URLs are `https://<store id>.public.blob.vercel-storage.com/<key>`,
+   * the store id being part of the token. BLOB_PUBLIC_URL overrides it.
+   */
+  publicUrl(key: string) {
+    const base =
+      this.env.BLOB_PUBLIC_URL ||
+      `https://${this.token.split("_")[3]?.toLowerCase()}.public.blob.vercel-storage.com`;
+    return `${base.replace(/\/$/, "")}/${key}`;
+  }
+
+  /** Only public objects are ever stored, so the public URL is enough. */
+  async signedUrl(key: string) {
+    return this.publicUrl(key);
+  }
+}
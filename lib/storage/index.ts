@@ -0,0 +1,61 @@
+import { BlobStorage } from "./blob";
+import { LocalStorage } from "./local";
+import { R2Storage } from "./r2";
+import { STORAGE_DRIVERS, type StorageDriver, type StorageProvider } from "./types";
+
+export { LocalStorage } from "./local";
+export {
+  STORAGE_DRIVERS,
+  StorageNotFoundError,
+  type PutOptions,
+  type StorageDriver,
+  type StorageProvider,
+  type StoredObject,
+  type StoredObjectInfo,
+} from "./types";
+
+/**
+ * STORAGE_DRIVER picks the driver. Without it, R2 is used when R2_BUCKET_NAME
+ * is set, then Vercel Blob when BLOB_READ_WRITE_TOKEN is, and otherwise the
+ * local disk, so a fresh checkout runs offline.
+ */
+export function resolveStorageDriver(env: NodeJS.ProcessEnv = process.env): StorageDriver {
+  const configured = env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (configured) {
+    if (configured === "s3") return "r2";
+    if ((STORAGE_DRIVERS as readonly string[]).includes(configured)) {
+      return configured as StorageDriver;
+    }
+    throw new Error(
+      `STORAGE_DRIVER must be one of ${STORAGE_DRIVERS.join(", ")}; got "${configured}".`
+    );
+  }
+  if (env.R2_BUCKET_NAME) return "r2";
+  if (env.BLOB_READ_WRITE_TOKEN) return "blob";
+  return "local";
+}
+
+let defaultStorage: StorageProvider | null = null;
+
+export function getStorage(): StorageProvider {
+  if (!defaultStorage) {
+    const driver = resolveStorageDriver();
+    defaultStorage =
+      driver === "r2"
+        ? new R2Storage()
+        : driver === "blob"
+          ? new BlobStorage()
+          : new LocalStorage();
+  }
+  return defaultStorage;
+}
+
+/**
+ * Store a public object as-is and return its URL. Product photos go
+ * through storeProductImage instead, which also makes resized copies.
+ */
+export async function storePublicFile(key: string, body: Buffer, contentType: string) {
+  const storage = getStorage();
+  await storage.put(key, body, { contentType });
+  return storage.publicUrl(key);
+}
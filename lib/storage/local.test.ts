@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+
+import { LocalStorage } from "./local";
+
+describe("LocalStorage.isValidKey", () => {
+  it("accepts relative keys", () => {
+    expect(LocalStorage.isValidKey("products/BW-001-1700000000000.webp")).toBe(true);
+    expect(LocalStorage.isValidKey("selections/abc/revision-1.pdf")).toBe(true);
+    expect(LocalStorage.isValidKey("..hidden/file..pdf")).toBe(true);
+  });
+
+  it("refuses parent and current directory segments", () => {
+    expect(LocalStorage.isValidKey("..")).toBe(false);
+    expect(LocalStorage.isValidKey("../signing-secret")).toBe(false);
+    expect(LocalStorage.isValidKey("products/../../etc/passwd")).toBe(false);
+    expect(LocalStorage.isValidKey("products/./a.webp")).toBe(false);
+  });
+
+  it("refuses absolute paths and empty segments", () => {
+    expect(LocalStorage.isValidKey("")).toBe(false);
+    expect(LocalStorage.isValidKey("/etc/passwd")).toBe(false);
+    expect(LocalStorage.isValidKey("products//a.webp")).toBe(false);
+    expect(LocalStorage.isValidKey("products/")).toBe(false);
+    expect(LocalStorage.isValidKey("C:\\Windows\\win.ini")).toBe(false);
+  });
+
+  it("refuses backslashes and NUL bytes", () => {
+    expect(LocalStorage.isValidKey("products\\..\\..\\secret")).toBe(false);
+    expect(LocalStorage.isValidKey("products/a.webp\0.pdf")).toBe(false);
+  });
+
+  it("refuses encoded separators once the route has decoded them", () => {
+    // /api/storage receives each path segment URL-decoded.
+    const key = ["products", decodeURIComponent("..%2F..%2Fsigning-secret")].join("/");
+    expect(key).toBe("products/../../signing-secret");
+    expect(LocalStorage.isValidKey(key)).toBe(false);
+    expect(LocalStorage.isValidKey(decodeURIComponent("..%5Csecret"))).toBe(false);
+  });
+
+  it("stores a still-encoded key as one literal name under the root", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "storage-"));
+    try {
+      vi.stubEnv("STORAGE_LOCAL_DIR", root);
+      const storage = new LocalStorage();
+      const key = "products/..%2F..%2Fsigning-secret";
+      expect(LocalStorage.isValidKey(key)).toBe(true);
+
+      await storage.put(key, Buffer.from("x"), { contentType: "text/plain" });
+      expect((await storage.list("products/")).map((o) => o.key)).toEqual([key]);
+      await expect(fs.readdir(root)).resolves.not.toContain("signing-secret");
+    } finally {
+      vi.unstubAllEnvs();
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
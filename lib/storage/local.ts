@@ -0,0 +1,178 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import {
+  DEFAULT_SIGNED_URL_TTL,
+  StorageNotFoundError,
+  type PutOptions,
+  type StorageProvider,
+  type StoredObjectInfo,
+} from "./types";
+
+type LocalMeta = { contentType: string; isPublic: boolean };
+
+/**
+ * Objects as files under STORAGE_LOCAL_DIR (default `.storage`), for local
+ * development and tests without any cloud credentials. Files are served by
+ * /api/storage: public ones to anyone, private ones only via signedUrl.
+ */
+export class LocalStorage implements StorageProvider {
+  readonly driver = "local";
+  readonly root: string;
+  private baseUrl: string;
+  private secret: Promise<string> | null = null;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.root = path.resolve(env.STORAGE_LOCAL_DIR || ".storage");
+    this.baseUrl = (
+      env.STORAGE_LOCAL_URL || `http://localhost:${env.PORT || 3000}/api/storage`
+    ).replace(/\/$/, "");
+    if (env.STORAGE_SIGNING_SECRET) {
+      this.secret = Promise.resolve(env.STORAGE_SIGNING_SECRET);
+    }
+  }
+
+  /** Keys are `/`-separated relative paths; anything that could escape the root is refused. */
+  static isValidKey(key: string) {
+    return (
+      key.length > 0 &&
+      !key.includes("\\") &&
+      !key.includes("\0") &&
+      key.split("/").every((part) => part && part !== "." && part !== "..")
+    );
+  }
+
+  private paths(key: string) {
+    if (!LocalStorage.isValidKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    const parts = key.split("/");
+    return {
+      file: path.join(this.root, "objects", ...parts),
+      meta: path.join(this.root, "meta", ...parts) + ".json",
+    };
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions) {
+    const { file, meta } = this.paths(key);
+    const data: LocalMeta = {
+      contentType: options.contentType,
+      isPublic: options.isPublic !== false,
+    };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.mkdir(path.dirname(meta), { recursive: true });
+    await fs.writeFile(file, body);
+    await fs.writeFile(meta, JSON.stringify(data));
+  }
+
+  /** The object with its access flag, for the route that serves files. */
+  async read(key: string) {
+    const { file, meta } = this.paths(key);
+    let body: Buffer;
+    try {
+      body = await fs.readFile(file);
+    } catch (error: any) {
+      if (error?.code === "ENOENT") throw new StorageNotFoundError(key);
+      throw error;
+    }
+
+    let data: LocalMeta = { contentType: "application/octet-stream", isPublic: false };
+    try {
+      data = JSON.parse(await fs.readFile(meta, "utf8"));
+    } catch {
+      // A file copied in by hand has no metadata; treat it as private.
+    }
+
+    return { body, contentType: data.contentType, isPublic: data.isPublic };
+  }
+
+  async get(key: string) {
+    const { body, contentType } = await this.read(key);
+    return { body, contentType };
+  }
+
+  async delete(key: string) {
+    const { file, meta } = this.paths(key);
+    await fs.rm(file, { force: true });
+    await fs.rm(meta, { force: true });
+  }
+
+  async list(prefix: string) {
+    const objectsDir = path.join(this.root, "objects");
+    const objects: StoredObjectInfo[] = [];
+
+    const walk = async (dir: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(full);
+          continue;
+        }
+        const key = path.relative(objectsDir, full).split(path.sep).join("/");
+        if (!key.startsWith(prefix)) continue;
+        const stat = await fs.stat(full);
+        objects.push({ key, size: stat.size, updatedAt: stat.mtime });
+      }
+    };
+
+    await walk(objectsDir);
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  publicUrl(key: string) {
+    return `${this.baseUrl}/${key.split("/").map(encodeURIComponent).join("/")}`;
+  }
+
+  /**
+   * STORAGE_SIGNING_SECRET, or else a random secret kept beside the files so
+   * links survive restarts and every route signs with the same one.
+   */
+  private getSecret() {
+    if (!this.secret) {
+      const file = path.join(this.root, "signing-secret");
+      this.secret = fs.readFile(file, "utf8").catch(async (error: any) => {
+        if (error?.code !== "ENOENT") throw error;
+        const secret = crypto.randomBytes(32).toString("hex");
+        await fs.mkdir(this.root, { recursive: true });
+        await fs.writeFile(file, secret, { mode: 0o600 });
+        return secret;
+      });
+    }
+    return this.secret;
+  }
+
+  private async signature(key: string, expires: number) {
+    return crypto
+      .createHmac("sha256", await this.getSecret())
+      .update(`${key}\n${expires}`)
+      .digest("base64url");
+  }
+
+  async signedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_TTL) {
+    this.paths(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const url = new URL(this.publicUrl(key));
+    url.searchParams.set("expires", String(expires));
+    url.searchParams.set("signature", await this.signature(key, expires));
+    return url.toString();
+  }
+
+  /** Checks the `expires` and `signature` query values of a signedUrl link. */
+  async verifySignedUrl(key: string, expires: string | null, signature: string | null) {
+    const expiresAt = Number(expires);
+    if (!signature || !Number.isInteger(expiresAt)) return false;
+    if (expiresAt * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(await this.signature(key, expiresAt));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
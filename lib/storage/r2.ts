@@ -0,0 +1,127 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+import {
+  DEFAULT_SIGNED_URL_TTL,
+  StorageNotFoundError,
+  type PutOptions,
+  type StorageProvider,
+  type StoredObjectInfo,
+} from "./types";
+
+/**
+ * Cloudflare R2, or any S3-compatible bucket. R2_ENDPOINT can be left out
+ * for AWS S3 itself, with R2_REGION set to the bucket's region.
+ */
+export class R2Storage implements StorageProvider {
+  readonly driver = "r2";
+  private client: S3Client | null = null;
+
+  constructor(private env: NodeJS.ProcessEnv = process.env) {}
+
+  private get bucket() {
+    const bucket = this.env.R2_BUCKET_NAME;
+    if (!bucket) throw new Error("R2_BUCKET_NAME is not configured.");
+    return bucket;
+  }
+
+  private getClient() {
+    if (this.client) return this.client;
+
+    const accessKeyId = this.env.R2_ACCESS_KEY_ID;
+    const secretAccessKey = this.env.R2_SECRET_ACCESS_KEY;
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error("R2 credentials are not configured.");
+    }
+
+    this.client = new S3Client({
+      region: this.env.R2_REGION || "auto",
+      endpoint: this.env.R2_ENDPOINT || undefined,
+      credentials: { accessKeyId, secretAccessKey },
+    });
+    return this.client;
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions) {
+    await this.getClient().send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ACL: options.isPublic === false ? undefined : "public-read",
+      })
+    );
+  }
+
+  async get(key: string) {
+    let result;
+    try {
+      result = await this.getClient().send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+    } catch (error: any) {
+      if (error?.name === "NoSuchKey") throw new StorageNotFoundError(key);
+      throw error;
+    }
+
+    if (!result.Body) throw new Error(`R2 object ${key} has no body.`);
+
+    return {
+      body: Buffer.from(await result.Body.transformToByteArray()),
+      contentType: result.ContentType || "application/octet-stream",
+    };
+  }
+
+  async delete(key: string) {
+    await this.getClient().send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+
+  async list(prefix: string) {
+    const objects: StoredObjectInfo[] = [];
+    let token: string | undefined;
+
+    do {
+      const page = await this.getClient().send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: token,
+        })
+      );
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          updatedAt: object.LastModified ?? new Date(0),
+        });
+      }
+      token = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (token);
+
+    return objects;
+  }
+
+  publicUrl(key: string) {
+    const base = this.env.R2_PUBLIC_URL;
+    if (!base) throw new Error("R2_PUBLIC_URL is not configured.");
+    return `${base.replace(/\/$/, "")}/${key}`;
+  }
+
+  async signedUrl(key: string, expiresInSeconds = DEFAULT_SIGNED_URL_TTL) {
+    return getSignedUrl(
+      this.getClient(),
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+export const STORAGE_DRIVERS = ["r2", "blob", "local"] as const;
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number];
+
+export type PutOptions = {
+  contentType: string;
+  /** Set to false for private documents that are only served through the API. */
+  isPublic?: boolean;
+};
+
+export type StoredObject = {
+  body: Buffer;
+  contentType: string;
+};
+
+export type StoredObjectInfo = {
+  key: string;
+  size: number;
+  updatedAt: Date;
+};
+
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+  /** Store an object, replacing any object with the same key. */
+  put(key: string, body: Buffer, options: PutOptions): Promise<void>;
+  /** Throws StorageNotFoundError when there is no object at `key`. */
+  get(key: string): Promise<StoredObject>;
+  /** Deleting a missing key is not an error. */
+  delete(key: string): Promise<void>;
+  /** Every object whose key starts with `prefix`, in key order. */
+  list(prefix: string): Promise<StoredObjectInfo[]>;
+  /** Where a public object can be read from without signing in. */
+  publicUrl(key: string): string;
+  /** A time-limited link to any object, public or private. */
+  signedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
+
+export class StorageNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Stored object ${key} was not found.`);
+    this.name = "StorageNotFoundError";
+  }
+}
+
+export const DEFAULT_SIGNED_URL_TTL = 60 * 15; // 15 minutes
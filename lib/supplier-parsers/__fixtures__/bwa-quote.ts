@@ -0,0 +1,20 @@
+import type { SourceRow } from "../types";
+
+// A two-page Builder Warehouse quote as readPdfLayout returns it.
+export const bwaQuoteRows: SourceRow[] = [
+  { page: 1, cells: ["Builder Warehouse Australia", "Quote No 1234"] },
+  { page: 1, cells: ["bwa.com.au", "Date 12/03/2025"] },
+  { page: 1, cells: ["Product Code", "Description", "Qty", "Unit Price"] },
+  { page: 1, cells: ["TAP-100", "Chrome basin mixer", "2", "$145.00"] },
+  { page: 1, cells: ["SH/220", "Rail shower set", "1", "1,299.50"] },
+  { page: 1, cells: ["VAN900", "Wall hung vanity 900mm", "389.00"] },
+  { page: 1, cells: ["Page 1 of 2"] },
+  { page: 2, cells: ["TAP-100", "Chrome basin mixer", "1", "145.00"] },
+  { page: 2, cells: ["WC-5 Close coupled toilet suite 1 620.00"] },
+  { page: 2, cells: ["Replaces discontinued TAP-090, see attached drawings"] },
+  { page: 2, cells: ["Freight", "95.00"] },
+  { page: 2, cells: ["GST", "259.35"] },
+  { page: 2, cells: ["Total", "2,853.85"] },
+];
+
+export const bwaQuoteText = bwaQuoteRows.map((row) => row.cells.join("  ")).join("\n");
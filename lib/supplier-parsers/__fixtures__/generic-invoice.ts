@@ -0,0 +1,17 @@
+import type { SourceRow } from "../types";
+
+// An invoice from a supplier without a profile, with a line total column.
+export const genericInvoiceRows: SourceRow[] = [
+  { page: 1, cells: ["Coastal Tiles Pty Ltd", "Invoice 5521"] },
+  { page: 1, cells: ["Item", "Description", "Qty", "Price", "Amount"] },
+  { page: 1, cells: ["TILE-600G", "Grey porcelain 600x600", "12", "48.50", "582.00"] },
+  { page: 1, cells: ["GROUT-W", "White grout 5kg", "3", "22.00", "66.00"] },
+  { page: 1, cells: ["tile-trim", "Aluminium trim", "4", "9.90"] },
+  { page: 1, cells: ["Delivery to site, FLR-850 back-ordered"] },
+  { page: 1, cells: ["Subtotal", "687.60"] },
+  { page: 1, cells: ["GST", "68.76"] },
+];
+
+export const genericInvoiceText = genericInvoiceRows
+  .map((row) => row.cells.join("  "))
+  .join("\n");
@@ -0,0 +1,22 @@
+import type { SupplierProfile } from "./types";
+
+// Builder Warehouse Australia order and quote PDFs:
+// CODE | DESCRIPTION | QTY | UNIT PRICE, sometimes without the quantity.
+export const bwaProfile: SupplierProfile = {
+  id: "bwa",
+  name: "BWA",
+  detect: [
+    /builder\s*warehouse/i,
+    /\bBWA\b/,
+    /bwa\.com\.au/i,
+    /\b(quote|order)\s*(no|number|#)/i,
+  ],
+  threshold: 0.5,
+  layouts: [
+    ["code", "description", "quantity", "unitPrice"],
+    ["code", "description", "unitPrice"],
+  ],
+  codePattern: /^[A-Z0-9][A-Z0-9\-_./]{2,30}$/,
+  headerLines: [/product code/i, /description/i, /page /i],
+  totalLines: [/total/i, /\bgst\b/i, /\btax\b/i, /shipping/i, /freight/i],
+};
@@ -0,0 +1,18 @@
+import type { SupplierProfile } from "./types";
+
+// Fallback for suppliers without a profile: a code-like first column and a
+// price-like last column. Never auto-detected; used when nothing else scores.
+export const genericProfile: SupplierProfile = {
+  id: "generic",
+  name: "Other supplier",
+  detect: [],
+  threshold: 1,
+  layouts: [
+    ["code", "description", "quantity", "unitPrice", "total"],
+    ["code", "description", "quantity", "unitPrice"],
+    ["code", "description", "unitPrice"],
+  ],
+  codePattern: /^[A-Z][A-Z0-9\-_]{2,29}$/,
+  headerLines: [/product code/i, /description/i, /page /i],
+  totalLines: [/subtotal/i, /total:/i, /\bgst\b/i],
+};
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  classifySupplierRows,
+  extractSupplierCodes,
+  parseSupplierRows,
+  resolveSupplier,
+  REVIEW_THRESHOLD,
+} from "@/lib/supplier-parsers";
+import { bwaQuoteRows, bwaQuoteText } from "./__fixtures__/bwa-quote";
+import { genericInvoiceRows, genericInvoiceText } from "./__fixtures__/generic-invoice";
+import { bwaProfile } from "./bwa";
+import { genericProfile } from "./generic";
+
+describe("resolveSupplier", () => {
+  it("detects a BWA quote from its text", () => {
+    const { profile, detected, scores } = resolveSupplier(bwaQuoteText);
+    expect(profile).toBe(bwaProfile);
+    expect(detected).toBe(true);
+    expect(scores[0]).toEqual({ profile: bwaProfile, score: 0.75 });
+  });
+
+  it("falls back to the generic profile without detecting it", () => {
+    const { profile, detected } = resolveSupplier(genericInvoiceText);
+    expect(profile).toBe(genericProfile);
+    expect(detected).toBe(false);
+  });
+
+  it("uses the requested profile whatever the text says", () => {
+    expect(resolveSupplier(bwaQuoteText, "generic")).toMatchObject({
+      profile: genericProfile,
+      detected: false,
+    });
+  });
+
+  it("ignores an unknown requested profile", () => {
+    expect(resolveSupplier(bwaQuoteText, "nope").profile).toBe(bwaProfile);
+  });
+});
+
+describe("classifySupplierRows with bwaProfile", () => {
+  const lines = classifySupplierRows(bwaQuoteRows, bwaProfile);
+  const byIndex = (index: number) => lines.find((line) => line.index === index)!;
+
+  it("classifies every row", () => {
+    expect(lines.map((line) => line.kind)).toEqual([
+      "product",
+      "unparsed",
+      "header",
+      "product",
+      "product",
+      "product",
+      "header",
+      "product",
+      "product",
+      "unparsed",
+      "total",
+      "total",
+      "total",
+    ]);
+  });
+
+  it("reads table columns at high confidence", () => {
+    expect(byIndex(3)).toMatchObject({
+      confidence: 0.95,
+      duplicate: false,
+      product: {
+        code: "TAP-100",
+        manufacturerDescription: "Chrome basin mixer",
+        price: "145.00",
+        notes: "Qty: 2",
+      },
+    });
+    expect(byIndex(4).product).toMatchObject({ code: "SH/220", price: "1299.50" });
+    expect(byIndex(5).product).toMatchObject({ code: "VAN900", price: "389.00", notes: "" });
+  });
+
+  it("falls back to text tokens at lower confidence", () => {
+    expect(byIndex(8)).toMatchObject({
+      confidence: 0.75,
+      product: { code: "WC-5", manufacturerDescription: "Close coupled toilet suite" },
+    });
+  });
+
+  it("marks a repeated code as a duplicate", () => {
+    expect(byIndex(7)).toMatchObject({ kind: "product", duplicate: true });
+  });
+
+  it("leaves the title line for review", () => {
+    // "Builder Warehouse Australia   Quote No 1234" fits code | description |
+    // unitPrice once upper-cased, but BUILDER isn't printed as a code.
+    const title = byIndex(0);
+    expect(title.product?.code).toBe("BUILDER");
+    expect(title.confidence).toBeLessThan(REVIEW_THRESHOLD);
+  });
+
+  it("scales confidence down for OCR rows", () => {
+    const [line] = classifySupplierRows(
+      [{ page: 1, cells: ["TAP-100", "Chrome basin mixer", "2", "145.00"], ocr: true }],
+      bwaProfile
+    );
+    expect(line).toMatchObject({ kind: "product", confidence: 0.76, ocr: true });
+  });
+});
+
+describe("classifySupplierRows with genericProfile", () => {
+  const lines = classifySupplierRows(genericInvoiceRows, genericProfile);
+
+  it("reads the line total layout", () => {
+    expect(lines[2]).toMatchObject({
+      kind: "product",
+      confidence: 0.95,
+      product: { code: "TILE-600G", price: "48.50", notes: "Qty: 12" },
+    });
+  });
+
+  it("is less sure of codes printed in lower case", () => {
+    expect(lines[4]).toMatchObject({ kind: "product", confidence: 0.65 });
+    expect(lines[4].product?.code).toBe("TILE-TRIM");
+  });
+
+  it("skips subtotal and GST rows", () => {
+    expect(lines.slice(-2).map((line) => line.kind)).toEqual(["total", "total"]);
+  });
+});
+
+describe("parseSupplierRows", () => {
+  it("returns confident products once each", () => {
+    expect(parseSupplierRows(bwaQuoteRows, bwaProfile).map((p) => p.code)).toEqual([
+      "TAP-100",
+      "SH/220",
+      "VAN900",
+      "WC-5",
+    ]);
+    expect(parseSupplierRows(genericInvoiceRows, genericProfile).map((p) => p.code)).toEqual([
+      "TILE-600G",
+      "GROUT-W",
+      "TILE-TRIM",
+    ]);
+  });
+});
+
+describe("extractSupplierCodes", () => {
+  it("adds capitalised codes mentioned outside product lines", () => {
+    expect(extractSupplierCodes(bwaQuoteRows, bwaProfile)).toEqual([
+      "TAP-100",
+      "SH/220",
+      "VAN900",
+      "WC-5",
+      "TAP-090",
+    ]);
+    expect(extractSupplierCodes(genericInvoiceRows, genericProfile)).toEqual([
+      "TILE-600G",
+      "GROUT-W",
+      "TILE-TRIM",
+      "FLR-850",
+    ]);
+  });
+
+  it("leaves out codes from low-confidence lines", () => {
+    expect(extractSupplierCodes(bwaQuoteRows, bwaProfile)).not.toContain("BUILDER");
+    expect(extractSupplierCodes(genericInvoiceRows, genericProfile)).not.toContain("COASTAL");
+  });
+});
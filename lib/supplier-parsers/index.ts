@@ -0,0 +1,234 @@
+import { bwaProfile } from "./bwa";
+import { genericProfile } from "./generic";
+import type {
+  ClassifiedLine,
+  ParsedProduct,
+  SourceRow,
+  SupplierColumn,
+  SupplierProfile,
+} from "./types";
+
+export type {
+  ClassifiedLine,
+  LineKind,
+  ParsedProduct,
+  SourceRow,
+  SupplierProfile,
+} from "./types";
+
+/** Every known supplier. The generic profile stays last as the fallback. */
+export const SUPPLIER_PROFILES: SupplierProfile[] = [bwaProfile, genericProfile];
+
+// Words that pass a loose code pattern but are never product codes.
+const NOT_CODES = new Set([
+  "DATE", "QUOTE", "ORDER", "TOTAL", "PRICE", "ITEM", "CODE", "DESC", "NAME",
+  "PAGE", "FROM", "SENT", "EMAIL", "PHONE", "ADDRESS",
+]);
+
+const NUMBER_TOKEN = /^\$?\d[\d,]*(\.\d+)?$/;
+
+/** Lines below this confidence are left for a person to review. */
+export const REVIEW_THRESHOLD = 0.6;
+
+export function getSupplierProfile(id: string | null | undefined) {
+  return SUPPLIER_PROFILES.find((p) => p.id === id) ?? null;
+}
+
+/** Score every profile against the text, best first. */
+export function scoreSuppliers(text: string) {
+  return SUPPLIER_PROFILES.map((profile) => ({
+    profile,
+    score: profile.detect.length
+      ? profile.detect.filter((re) => re.test(text)).length / profile.detect.length
+      : 0,
+  })).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the supplier profile for a PDF: the requested one when `requested`
+ * names a profile, otherwise the best-scoring profile above its threshold,
+ * otherwise the generic fallback.
+ */
+export function resolveSupplier(text: string, requested?: string | null) {
+  const scores = scoreSuppliers(text);
+  const chosen = getSupplierProfile(requested);
+  if (chosen) return { profile: chosen, detected: false, scores };
+
+  const best = scores.find(({ profile, score }) => score > 0 && score >= profile.threshold);
+  return { profile: best?.profile ?? genericProfile, detected: Boolean(best), scores };
+}
+
+/**
+ * Fit a row to a layout. Real table rows have one cell per column; rows
+ * from unstructured text fall back to whitespace tokens so a line like
+ * "ABC123 Chrome tap 2 45.00" still reads.
+ */
+function matchLayout(cells: string[], layout: SupplierColumn[], profile: SupplierProfile) {
+  const numeric = layout.slice(layout.indexOf("description") + 1);
+
+  for (const parts of [cells, cells.join(" ").split(/\s+/)]) {
+    const code = parts[0].toUpperCase();
+    if (!profile.codePattern.test(code) || NOT_CODES.has(code)) continue;
+    if (parts.length < numeric.length + 2) continue;
+
+    const tail = parts.slice(parts.length - numeric.length);
+    if (!tail.every((t) => NUMBER_TOKEN.test(t))) continue;
+
+    const values: Partial<Record<SupplierColumn, string>> = {
+      code,
+      description: parts.slice(1, parts.length - numeric.length).join(" "),
+    };
+    numeric.forEach((column, i) => {
+      values[column] = tail[i].replace(/[$,]/g, "");
+    });
+    return {
+      values,
+      fromCells: parts === cells,
+      // Codes are printed in capitals; "Builder" upper-cased is a guess.
+      printedAsCode: parts[0] === code,
+    };
+  }
+  return null;
+}
+
+function matchAnyLayout(cells: string[], profile: SupplierProfile) {
+  for (const layout of profile.layouts) {
+    const match = matchLayout(cells, layout, profile);
+    if (match) return { layout, ...match };
+  }
+  return null;
+}
+
+// OCR misreads digits and letters (0/O, 1/I), so every OCR line is less certain.
+const OCR_FACTOR = 0.8;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Classify every row as a product, header, total or unparsed line, with the
+ * rule that decided it and a confidence. Header and total patterns win over
+ * a product layout, but at low confidence when a layout also fits, so a
+ * product whose name happens to say "description" is flagged for review.
+ */
+export function classifySupplierRows(
+  rows: SourceRow[],
+  profile: SupplierProfile
+): ClassifiedLine[] {
+  const lines: ClassifiedLine[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const cells = row.cells.filter(Boolean);
+    if (cells.length === 0) return;
+
+    const text = cells.join("  ");
+    const joined = cells.join(" ");
+    const match = matchAnyLayout(cells, profile);
+    const ocr = Boolean(row.ocr);
+    const scale = (confidence: number) => round(ocr ? confidence * OCR_FACTOR : confidence);
+    const base = { index, page: row.page, text, product: null, duplicate: false, ocr };
+
+    const header = profile.headerLines.find((re) => re.test(joined));
+    const total = header ? undefined : profile.totalLines.find((re) => re.test(joined));
+    const skip = header ?? total;
+    if (skip) {
+      lines.push({
+        ...base,
+        kind: header ? "header" : "total",
+        rule: `${header ? "Header" : "Total"} pattern ${skip}`,
+        confidence: scale(match ? 0.5 : 0.9),
+      });
+      return;
+    }
+
+    if (!match) {
+      // A code-like first cell and a number at the end: probably a product
+      // line in a shape no layout covers.
+      const looksLikeProduct =
+        cells.length >= 2 &&
+        profile.codePattern.test(cells[0].toUpperCase()) &&
+        NUMBER_TOKEN.test(cells[cells.length - 1]);
+      lines.push({
+        ...base,
+        kind: "unparsed",
+        rule: "No layout matched",
+        confidence: scale(looksLikeProduct ? 0.3 : 0.8),
+      });
+      return;
+    }
+
+    const { values, layout, fromCells, printedAsCode } = match;
+    // One cell per column is a clean fit; extra cells were folded into the
+    // description.
+    let confidence = !fromCells ? 0.75 : cells.length === layout.length ? 0.95 : 0.85;
+    if (!printedAsCode) confidence -= 0.3;
+    if (!values.description) confidence -= 0.2;
+
+    const duplicate = seen.has(values.code!);
+    seen.add(values.code!);
+
+    lines.push({
+      ...base,
+      kind: "product",
+      rule: `${layout.join(" | ")} (${fromCells ? "table columns" : "text tokens"})`,
+      confidence: scale(confidence),
+      duplicate,
+      product: {
+        code: values.code!,
+        manufacturerDescription: values.description || "",
+        price: values.unitPrice || "",
+        imageUrl: "",
+        notes: values.quantity ? `Qty: ${values.quantity}` : "",
+      },
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Whether a line's product goes straight into the import: the first of its
+ * code, and confident enough not to need review.
+ */
+export function isAcceptedLine(line: ClassifiedLine) {
+  return Boolean(line.product) && !line.duplicate && line.confidence >= REVIEW_THRESHOLD;
+}
+
+/** Confident product lines from table rows, deduplicated by code. */
+export function parseSupplierRows(rows: SourceRow[], profile: SupplierProfile): ParsedProduct[] {
+  return classifySupplierRows(rows, profile)
+    .filter(isAcceptedLine)
+    .map((line) => line.product!);
+}
+
+/**
+ * Every product code mentioned in the rows: codes from confident product
+ * lines plus any other capitalised token matching the profile's code pattern
+ * outside headers and totals. Used to look up catalog products, where a false positive just
+ * comes back "not found".
+ */
+export function extractSupplierCodes(rows: SourceRow[], profile: SupplierProfile) {
+  const lines = classifySupplierRows(rows, profile);
+  const codes = new Set(
+    lines.flatMap((line) => (isAcceptedLine(line) ? [line.product!.code] : []))
+  );
+
+  for (const line of lines) {
+    if (line.kind === "header" || line.kind === "total") continue;
+    for (const token of line.text.split(/[\s|,;:()]+/)) {
+      // Codes are printed in capitals; mixed-case words are prose.
+      if (
+        token.length >= 4 &&
+        token === token.toUpperCase() &&
+        /\d/.test(token) &&
+        /[A-Z]/.test(token) &&
+        profile.codePattern.test(token) &&
+        !NOT_CODES.has(token)
+      ) {
+        codes.add(token);
+      }
+    }
+  }
+
+  return Array.from(codes);
+}
@@ -0,0 +1,57 @@
+export type ParsedProduct = {
+  code: string;
+  manufacturerDescription: string;
+  price: string;
+  imageUrl: string;
+  notes: string;
+};
+
+export type SupplierColumn = "code" | "description" | "quantity" | "unitPrice" | "total";
+
+/**
+ * One supplier's quote layout. Profiles are data: adding a supplier means
+ * describing its PDF text here, not writing another parser.
+ */
+export type SupplierProfile = {
+  id: string;
+  name: string;
+  /** Patterns looked for anywhere in the PDF text; the share that match is the detection score. */
+  detect: RegExp[];
+  /** Minimum detection score for auto-detect to pick this profile. */
+  threshold: number;
+  /**
+   * Column orders a product line can take, tried in turn. Each must start
+   * with `code` and have `description` before the numeric columns.
+   */
+  layouts: SupplierColumn[][];
+  /** Whole-token match for a product code, tested against the upper-cased token. */
+  codePattern: RegExp;
+  /** Column headings, page headers and footers. Matching rows are never products. */
+  headerLines: RegExp[];
+  /** Subtotal, tax and freight rows. Matching rows are never products. */
+  totalLines: RegExp[];
+};
+
+/** A table row read from the PDF: its page and one string per column. */
+export type SourceRow = { page: number; cells: string[]; ocr?: boolean };
+
+export type LineKind = "product" | "header" | "total" | "unparsed";
+
+/** One source row of the PDF and what the parser made of it. */
+export type ClassifiedLine = {
+  index: number;
+  page: number;
+  /** The row as printed, cells separated by two spaces. */
+  text: string;
+  kind: LineKind;
+  /** The pattern or layout that decided `kind`, for display. */
+  rule: string;
+  /** 0–1: how sure the parser is of `kind`. Lines under REVIEW_THRESHOLD want a look. */
+  confidence: number;
+  /** Parsed fields, on product lines only. */
+  product: ParsedProduct | null;
+  /** A product line whose code already appeared earlier in the PDF. */
+  duplicate: boolean;
+  /** The text was recognised from a scanned page and may be misread. */
+  ocr: boolean;
+};
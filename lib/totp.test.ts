@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  base32Decode,
+  base32Encode,
+  hotp,
+  totp,
+  totpCounter,
+  verifyTotp,
+  type TotpAlgorithm,
+} from "@/lib/totp";
+
+// The RFC's seeds: "12345678901234567890" repeated to the hash's block size.
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from("12345678901234567890"),
+  sha256: Buffer.from("12345678901234567890123456789012"),
+  sha512: Buffer.from(
+    "1234567890123456789012345678901234567890123456789012345678901234"
+  ),
+};
+
+describe("hotp", () => {
+  // RFC 4226 appendix D.
+  it.each([
+    [0, "755224"],
+    [1, "287082"],
+    [2, "359152"],
+    [3, "969429"],
+    [4, "338314"],
+    [5, "254676"],
+    [6, "287922"],
+    [7, "162583"],
+    [8, "399871"],
+    [9, "520489"],
+  ])("counter %i is %s", (counter, code) => {
+    expect(hotp(SEEDS.sha1, counter)).toBe(code);
+  });
+});
+
+describe("RFC 6238 test vectors", () => {
+  // Appendix B: 8-digit codes with a 30 second period.
+  it.each([
+    [59, "sha1", "94287082"],
+    [59, "sha256", "46119246"],
+    [59, "sha512", "90693936"],
+    [1111111109, "sha1", "07081804"],
+    [1111111109, "sha256", "68084774"],
+    [1111111109, "sha512", "25091201"],
+    [1111111111, "sha1", "14050471"],
+    [1111111111, "sha256", "67062674"],
+    [1111111111, "sha512", "99943326"],
+    [1234567890, "sha1", "89005924"],
+    [1234567890, "sha256", "91819424"],
+    [1234567890, "sha512", "93441116"],
+    [2000000000, "sha1", "69279037"],
+    [2000000000, "sha256", "90698825"],
+    [2000000000, "sha512", "38618901"],
+    [20000000000, "sha1", "65353130"],
+    [20000000000, "sha256", "77737706"],
+    [20000000000, "sha512", "47863826"],
+  ] as [number, TotpAlgorithm, string][])("T=%i %s is %s", (seconds, algorithm, code) => {
+    const counter = totpCounter(seconds * 1000);
+    expect(hotp(SEEDS[algorithm], counter, { algorithm, digits: 8 })).toBe(code);
+    expect(totp(base32Encode(SEEDS[algorithm]), seconds * 1000, { algorithm, digits: 8 })).toBe(
+      code
+    );
+  });
+});
+
+describe("base32", () => {
+  it("round-trips and ignores case, spaces and padding", () => {
+    const secret = base32Encode(SEEDS.sha1);
+    expect(secret).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(secret.toLowerCase().replace(/(.{4})/g, "$1 ") + "==")).toEqual(
+      SEEDS.sha1
+    );
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("GEZ1")).toThrow(/Invalid base32/);
+  });
+});
+
+describe("verifyTotp", () => {
+  const secret = base32Encode(SEEDS.sha1);
+  const timeMs = 1111111111 * 1000;
+  const counter = totpCounter(timeMs);
+
+  it("accepts the current code and its neighbours", () => {
+    expect(verifyTotp(secret, totp(secret, timeMs), { timeMs })).toBe(counter);
+    expect(verifyTotp(secret, totp(secret, timeMs - 30_000), { timeMs })).toBe(counter - 1);
+    expect(verifyTotp(secret, totp(secret, timeMs + 30_000), { timeMs })).toBe(counter + 1);
+    expect(verifyTotp(secret, totp(secret, timeMs - 60_000), { timeMs })).toBeNull();
+  });
+
+  it("refuses a code that was already used", () => {
+    const code = totp(secret, timeMs);
+    expect(verifyTotp(secret, code, { timeMs, lastCounter: counter })).toBeNull();
+  });
+
+  it("refuses malformed codes", () => {
+    expect(verifyTotp(secret, "12345", { timeMs })).toBeNull();
+    expect(verifyTotp(secret, "12a456", { timeMs })).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import crypto from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238, on top of HOTP from RFC 4226),
+ * as used by authenticator apps. Secrets are exchanged in base32.
+ */
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+export type TotpOptions = {
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+  /** Seconds per code. */
+  period?: number;
+};
+
+// Authenticator apps assume these when the otpauth URL leaves them out.
+const DEFAULTS: Required<TotpOptions> = { algorithm: "sha1", digits: 6, period: 30 };
+// Codes from one period either side are accepted, for clock drift.
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/** Decodes base32, ignoring case, spaces and padding. */
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** HOTP value for one counter (RFC 4226 section 5.3). */
+export function hotp(
+  key: Buffer,
+  counter: number,
+  { algorithm = DEFAULTS.algorithm, digits = DEFAULTS.digits }: TotpOptions = {}
+) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac(algorithm, key).update(message).digest();
+
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+export function totpCounter(timeMs: number, period = DEFAULTS.period) {
+  return Math.floor(timeMs / 1000 / period);
+}
+
+/** The code for a base32 secret at `timeMs`. */
+export function totp(secret: string, timeMs = Date.now(), options: TotpOptions = {}) {
+  return hotp(base32Decode(secret), totpCounter(timeMs, options.period), options);
+}
+
+/**
+ * Checks a code against the current period and its neighbours. Returns the
+ * matching counter, which callers store so the same code can't be replayed,
+ * or null. Codes at or below `lastCounter` are refused.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  { lastCounter = null, timeMs = Date.now(), ...options }: TotpOptions & {
+    lastCounter?: number | null;
+    timeMs?: number;
+  } = {}
+) {
+  const digits = options.digits ?? DEFAULTS.digits;
+  const clean = code.replace(/\s/g, "");
+  if (clean.length !== digits || !/^\d+$/.test(clean)) return null;
+
+  const key = base32Decode(secret);
+  const current = totpCounter(timeMs, options.period);
+  for (let counter = current - DRIFT_STEPS; counter <= current + DRIFT_STEPS; counter++) {
+    if (lastCounter !== null && counter <= lastCounter) continue;
+    const expected = Buffer.from(hotp(key, counter, options));
+    if (crypto.timingSafeEqual(expected, Buffer.from(clean))) return counter;
+  }
+  return null;
+}
+
+/** A new random secret: 160 bits, the size RFC 4226 recommends for SHA-1. */
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/** The otpauth:// URL authenticator apps read from the enrolment QR code. */
+export function totpUri(secret: string, account: string, issuer: string) {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: DEFAULTS.algorithm.toUpperCase(),
+    digits: String(DEFAULTS.digits),
+    period: String(DEFAULTS.period),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
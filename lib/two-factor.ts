@@ -0,0 +1,61 @@
+import crypto from "crypto";
+
+import { base32Encode, verifyTotp } from "@/lib/totp";
+
+/** Shown as the account's issuer in authenticator apps. */
+export const TOTP_ISSUER = "PdCon Admin";
+
+const RECOVERY_CODE_COUNT = 10;
+
+/** Recovery codes are compared without case or dashes, as people retype them. */
+export function hashRecoveryCode(code: string) {
+  const clean = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return crypto.createHash("sha256").update(clean).digest("hex");
+}
+
+/**
+ * Fresh one-use recovery codes, formatted XXXX-XXXX. Return the plain codes
+ * to the user once; store only the hashes.
+ */
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+type TwoFactorUser = {
+  totpSecret: string | null;
+  totpLastCounter: number | null;
+  recoveryCodes: string[];
+};
+
+/**
+ * Checks an authenticator code, or failing that a recovery code. Returns the
+ * user update that consumes it (so neither can be reused), or null.
+ */
+export function checkSecondFactor(user: TwoFactorUser, code: string) {
+  if (!user.totpSecret) return null;
+
+  const counter = verifyTotp(user.totpSecret, code, {
+    lastCounter: user.totpLastCounter,
+  });
+  if (counter !== null) {
+    return { totpLastCounter: counter };
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (user.recoveryCodes.includes(hash)) {
+    return { recoveryCodes: user.recoveryCodes.filter((h) => h !== hash) };
+  }
+
+  return null;
+}
+
+export const disabledTwoFactor = {
+  totpSecret: null,
+  totpPendingSecret: null,
+  totpLastCounter: null,
+  recoveryCodes: [],
+};
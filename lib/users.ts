@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+export const ROLES = ["viewer", "estimator", "owner"] as const;
+export type Role = (typeof ROLES)[number];
+
+/**
+ * What each role may do: viewers search and generate documents, estimators
+ * also change the catalog and selections, owners also manage users.
+ */
+const ROLE_RANK: Record<Role, number> = { viewer: 0, estimator: 1, owner: 2 };
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(role: string, required: Role) {
+  return isRole(role) && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+// N=2^15 keeps a hash around 100ms; maxmem has to allow 128*N*r bytes.
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const SCRYPT_KEYLEN = 64;
+
+/** `scrypt$N$r$p$salt$hash`, so the cost can be raised without breaking old hashes. */
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEYLEN, {
+    ...SCRYPT_PARAMS,
+    maxmem: 256 * SCRYPT_PARAMS.N * SCRYPT_PARAMS.r,
+  });
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ["scrypt", N, r, p, salt.toString("base64url"), hash.toString("base64url")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string | null) {
+  if (!stored) return false;
+
+  const [scheme, n, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64url");
+  const params = { N: Number(n), r: Number(r), p: Number(p) };
+  const actual = await scrypt(password, Buffer.from(salt, "base64url"), expected.length, {
+    ...params,
+    maxmem: 256 * params.N * params.r,
+  });
+
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+export type UserTokenPurpose = "invite" | "reset";
+
+const TOKEN_TTL_MS: Record<UserTokenPurpose, number> = {
+  invite: 1000 * 60 * 60 * 24 * 7, // 7 days
+  reset: 1000 * 60 * 60 * 24, // 24 hours
+};
+
+/**
+ * A one-time link token for an invite or password reset. Only the sha256 is
+ * stored, so a leaked database row can't be turned back into a working link.
+ */
+export function createUserToken(purpose: UserTokenPurpose) {
+  const token = crypto.randomBytes(24).toString("base64url");
+  return {
+    token,
+    data: {
+      tokenHash: hashUserToken(token),
+      tokenPurpose: purpose,
+      tokenExpiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+    },
+  };
+}
+
+export function hashUserToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export const clearedUserToken = {
+  tokenHash: null,
+  tokenPurpose: null,
+  tokenExpiresAt: null,
+};
+
+export function passwordLinkUrl(request: Request, token: string) {
+  return new URL(`/admin/set-password?token=${token}`, request.url).toString();
+}
+
+/**
+ * The user fields the admin UI needs. passwordHash and totpSecret are only
+ * read so toPublicUser can turn them into flags; they are never sent.
+ */
+export const publicUserSelect = {
+  id: true,
+  createdAt: true,
+  username: true,
+  email: true,
+  role: true,
+  active: true,
+  lastLoginAt: true,
+  tokenPurpose: true,
+  tokenExpiresAt: true,
+  passwordHash: true,
+  totpSecret: true,
+} as const;
+
+export function toPublicUser<
+  T extends { passwordHash: string | null; totpSecret: string | null }
+>(user: T) {
+  const { passwordHash, totpSecret, ...rest } = user;
+  return { ...rest, hasPassword: passwordHash !== null, twoFactor: totpSecret !== null };
+}
@@ -1,7 +1,14 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdf.js and Tesseract load workers, wasm and language data from their own
+  // package directories at runtime, which breaks once bundled.
+  serverExternalPackages: [
+    "pdfjs-dist",
+    "pdf-parse",
+    "tesseract.js",
+    "@tesseract.js-data/eng",
+  ],
 };
 
 export default nextConfig;
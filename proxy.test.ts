@@ -0,0 +1,119 @@
+import fs from "node:fs";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+import { config, proxy, PUBLIC_PATHS } from "@/proxy";
+import { SESSION_COOKIE_NAME, signPayload } from "@/lib/session-token";
+
+/** Every file named `file` under `dir`, as the URL path it serves. */
+function appPaths(dir: string, file: string): string[] {
+  const root = path.join(__dirname, "app");
+  const found: string[] = [];
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (entry.name === file) {
+        const route = path.relative(root, current).split(path.sep);
+        // Dynamic segments get a sample value; route groups aren't in the URL.
+        found.push(
+          "/" +
+            route
+              .filter((segment) => !/^\(.*\)$/.test(segment))
+              .map((segment) => (/^\[.*\]$/.test(segment) ? "sample-id" : segment))
+              .join("/")
+        );
+      }
+    }
+  };
+  walk(path.join(root, dir));
+  return found.sort();
+}
+
+const pages = appPaths("admin", "page.tsx");
+const apis = appPaths(path.join("api", "admin"), "route.ts");
+
+const request = (pathname: string, cookie?: string) =>
+  new NextRequest(`http://localhost${pathname}`, {
+    headers: cookie ? { cookie: `${SESSION_COOKIE_NAME}=${cookie}` } : {},
+  });
+
+beforeAll(() => {
+  vi.stubEnv("ADMIN_SESSION_SECRET", "proxy-test-secret-0123456789abcdef");
+});
+
+describe("proxy", () => {
+  it("finds the admin pages and APIs", () => {
+    expect(pages).toContain("/admin");
+    expect(pages).toContain("/admin/users");
+    expect(apis).toContain("/api/admin/products/sample-id");
+  });
+
+  it("runs on every admin page and API", () => {
+    expect(config.matcher).toEqual(["/admin/:path*", "/api/admin/:path*"]);
+  });
+
+  it("only lists paths that exist as public", () => {
+    for (const publicPath of PUBLIC_PATHS) {
+      expect([...pages, ...apis]).toContain(publicPath);
+    }
+  });
+
+  it.each(pages.filter((p) => !PUBLIC_PATHS.has(p)))(
+    "sends anonymous visitors of %s to the login page",
+    (pathname) => {
+      const response = proxy(request(`${pathname}?tab=1`));
+      expect(response.status).toBe(307);
+      const location = new URL(response.headers.get("location")!);
+      expect(location.pathname).toBe("/admin");
+      expect(location.searchParams.get("error")).toBe("unauthenticated");
+      expect(location.searchParams.get("next")).toBe(`${pathname}?tab=1`);
+    }
+  );
+
+  it.each(apis.filter((p) => !PUBLIC_PATHS.has(p)))(
+    "answers anonymous calls to %s with 401",
+    async (pathname) => {
+      const response = proxy(request(pathname));
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: "Unauthorized" });
+    }
+  );
+
+  it.each([...PUBLIC_PATHS])("lets anonymous requests to %s through", (pathname) => {
+    expect(proxy(request(pathname)).headers.get("x-middleware-next")).toBe("1");
+  });
+
+  it("treats a trailing slash like the bare path", () => {
+    expect(proxy(request("/api/admin/users/")).status).toBe(401);
+    expect(proxy(request("/api/admin/login/")).headers.get("x-middleware-next")).toBe("1");
+  });
+
+  it("rejects a tampered or expired session cookie", () => {
+    const payload = { sid: "s1", userId: "u1", username: "sam", role: "owner" as const };
+    const token = signPayload({ ...payload, exp: Date.now() + 60_000 });
+    const [keyId, , signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...payload, userId: "u2", exp: Date.now() + 60_000 })
+    ).toString("base64url");
+
+    expect(proxy(request("/api/admin/users", `${keyId}.${forged}.${signature}`)).status).toBe(401);
+    expect(
+      proxy(request("/api/admin/users", signPayload({ ...payload, exp: Date.now() - 1 }))).status
+    ).toBe(401);
+  });
+
+  it("lets a signed-in session through", () => {
+    const token = signPayload({
+      sid: "s1",
+      userId: "u1",
+      username: "sam",
+      role: "viewer",
+      exp: Date.now() + 60_000,
+    });
+    for (const pathname of [...pages, ...apis]) {
+      expect(proxy(request(pathname, token)).headers.get("x-middleware-next")).toBe("1");
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { SESSION_COOKIE_NAME, verifySession } from "@/lib/session-token";
+
+/**
+ * Every admin page and admin API needs a signed-in session unless it is
+ * listed here. Role checks stay in the routes (requireApiRole/requireAdmin),
+ * which also re-read the user; this only turns anonymous requests away.
+ */
+export const PUBLIC_PATHS = new Set([
+  "/admin", // shows the login form when signed out
+  "/admin/set-password", // invite and reset links
+  "/api/admin/login",
+  "/api/admin/login/verify", // second step, carries its own challenge
+  "/api/admin/logout",
+  "/api/admin/password",
+]);
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const path = pathname.replace(/\/+$/, "") || "/";
+
+  if (PUBLIC_PATHS.has(path)) {
+    return NextResponse.next();
+  }
+
+  const session = verifySession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (path.startsWith("/api/")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const login = new URL("/admin", request.url);
+  login.searchParams.set("error", "unauthenticated");
+  login.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
+};
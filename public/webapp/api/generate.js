@@ -13,7 +13,7 @@ export default async function handler(req, res) {
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
 
   try {
-    const { address, date, contactName, company, phoneNumber, email, products } = req.body || {}
+    const { address, date, contactName, company, phoneNumber, email, products, areas } = req.body || {}
     
     if (!address) {
       return res.status(400).json({ error: 'Address is required' })
@@ -78,8 +78,10 @@ export default async function handler(req, res) {
       return res.status(500).json({ error: 'Template structure invalid', details: err.message })
     }
 
-    // Group products by category
-    const categoryOrder = ['Kitchen', 'Bathroom', 'Bedroom', 'Living Room', 'Laundry', 'Balcony', 'Other']
+    // Group products by category, in the area order the app sent. Categories
+    // it didn't list are appended alphabetically rather than dropped.
+    const knownAreas = Array.isArray(areas) ? areas.filter(a => a && a.name) : []
+    const labels = Object.fromEntries(knownAreas.map(a => [a.name, a.label || a.name]))
     const productsByCategory = {}
     
     for (const p of products) {
@@ -98,10 +100,12 @@ export default async function handler(req, res) {
       })
     }
 
-    const categoriesData = categoryOrder
+    const listed = knownAreas.map(a => a.name)
+    const extra = Object.keys(productsByCategory).filter(cat => !listed.includes(cat)).sort()
+    const categoriesData = [...listed, ...extra]
       .filter(cat => productsByCategory[cat]?.length > 0)
       .map(cat => ({
-        'category-name': cat.toUpperCase(),
+        'category-name': (labels[cat] || cat).toUpperCase(),
         products: productsByCategory[cat]
       }))
 
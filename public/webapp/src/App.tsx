@@ -1,11 +1,22 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 
-const CATEGORIES = ['Kitchen', 'Bathroom', 'Bedroom', 'Living Room', 'Laundry', 'Balcony', 'Other'] as const
-type Category = typeof CATEGORIES[number]
+// Areas come from the main site (Admin > Areas) so both apps share one list
+// and one order. The webapp runs on its own origin, so the build requires
+// VITE_AREAS_URL (see vite.config.ts). Until the areas load, or if the site
+// can't be reached, the original categories are offered.
+const AREAS_URL = import.meta.env.VITE_AREAS_URL
+const FALLBACK_AREAS: Area[] = [
+  'Kitchen', 'Bathroom', 'Bedroom', 'Living Room', 'Laundry', 'Balcony', 'Other',
+].map(name => ({ name, label: name }))
+
+interface Area {
+  name: string
+  label: string
+}
 
 interface Product {
   id: string
-  category: Category
+  category: string
   code: string
   description: string
   manufacturerDescription: string
@@ -18,9 +29,9 @@ interface Product {
   imagePreview: string | null
 }
 
-const emptyProduct = (): Product => ({
+const emptyProduct = (category: string): Product => ({
   id: crypto.randomUUID(),
-  category: 'Bathroom',
+  category,
   code: '',
   description: '',
   manufacturerDescription: '',
@@ -46,14 +57,34 @@ export default function App() {
   const [email, setEmail] = useState('')
   
   // Products
-  const [products, setProducts] = useState<Product[]>([emptyProduct()])
+  const [areas, setAreas] = useState<Area[]>(FALLBACK_AREAS)
+  const [products, setProducts] = useState<Product[]>([emptyProduct(FALLBACK_AREAS[0].name)])
+
+  useEffect(() => {
+    // Only `vite dev` runs without it.
+    if (!AREAS_URL) return
+    fetch(AREAS_URL)
+      .then(resp => (resp.ok ? resp.json() : Promise.reject(new Error(`HTTP ${resp.status}`))))
+      .then((data: { areas?: Area[] }) => {
+        if (!data.areas?.length) return
+        const loaded = data.areas
+        setAreas(loaded)
+        // Untouched default rows move to the first real area.
+        setProducts(prev => prev.map(p =>
+          p.category === FALLBACK_AREAS[0].name && !p.code && !p.description
+            ? { ...p, category: loaded[0].name }
+            : p
+        ))
+      })
+      .catch(err => console.error('Failed to load areas:', err))
+  }, [])
 
   const addProduct = () => {
     if (products.length >= 50) {
       setMessage({ type: 'error', text: 'Maximum 50 products allowed' })
       return
     }
-    setProducts([...products, emptyProduct()])
+    setProducts([...products, emptyProduct(areas[0].name)])
   }
 
   const removeProduct = (id: string) => {
@@ -116,7 +147,8 @@ export default function App() {
           price: p.price,
           notes: p.notes,
           image: p.image,
-        }))
+        })),
+        areas,
       }
 
       const resp = await fetch('/api/generate', {
@@ -148,12 +180,18 @@ export default function App() {
     }
   }
 
-  // Group products by category
-  const productsByCategory = CATEGORIES.reduce((acc, cat) => {
-    const catProducts = products.filter(p => p.category === cat)
-    if (catProducts.length > 0) acc[cat] = catProducts
+  // Group products by area, in area order
+  const productsByCategory = areas.reduce((acc, area) => {
+    const areaProducts = products.filter(p => p.category === area.name)
+    if (areaProducts.length > 0) acc[area.label] = areaProducts
     return acc
-  }, {} as Record<Category, Product[]>)
+  }, {} as Record<string, Product[]>)
+  // Products in a category that isn't listed (any more) go last, never dropped.
+  const known = new Set(areas.map(a => a.name))
+  for (const p of products) {
+    if (known.has(p.category)) continue
+    productsByCategory[p.category] = [...(productsByCategory[p.category] ?? []), p]
+  }
 
   return (
     <div className="container">
@@ -226,7 +264,7 @@ export default function App() {
               <div className="field">
                 <label>Category *</label>
                 <select value={product.category} onChange={e => updateProduct(product.id, 'category', e.target.value)}>
-                  {CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+                  {areas.map(area => <option key={area.name} value={area.name}>{area.label}</option>)}
                 </select>
               </div>
               <div className="field">
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+// Declared here as well so the root Next.js type-check, which doesn't have
+// vite's types installed, still knows import.meta.env.
+interface ImportMetaEnv {
+  readonly VITE_AREAS_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,6 +1,11 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type ConfigEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ command, mode }: ConfigEnv) => {
+  // Deployed on its own origin, the app can't reach the main site's areas
+  // through a relative URL, so a build without the absolute one is refused.
+  if (command === 'build' && !loadEnv(mode, process.cwd(), '').VITE_AREAS_URL) {
+    throw new Error('Set VITE_AREAS_URL to the main site\'s /api/areas URL, e.g. https://example.com/api/areas')
+  }
+  return { plugins: [react()] }
 })